@@ -1,182 +1,247 @@
 
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { useLocalStorage } from './hooks/useLocalStorage';
-import { AppData, Purchase, Sale, InventoryItem, Expense } from './types';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAppStorage } from './hooks/useAppStorage';
+import { useActionHistory } from './hooks/useActionHistory';
+import { AppData, Purchase, Sale, InventoryItem, Expense, MenuProduct, Stocktake, Settings, ReorderLevel, Supplier, WasteRecord, CatalogItem } from './types';
+import { DEFAULT_SETTINGS } from './constants';
+import { getInventoryValue } from './utils/inventory';
+import { generateId } from './utils/id';
+import { upsertDailySnapshot } from './utils/snapshots';
+import { CURRENT_SCHEMA_VERSION, migrateAppData } from './utils/migrations';
+import { CsvImport } from './utils/csv';
+import { buildShoppingList, getLowStockItems } from './utils/reorder';
+import { createSeedCatalog } from './utils/catalog';
 import InventoryManager from './components/InventoryManager';
-import TransactionManager from './components/TransactionManager';
+import ExpenseManager from './components/ExpenseManager';
+import ProductManager from './components/ProductManager';
+import StocktakeManager from './components/StocktakeManager';
+import TransactionManager, { PurchasePrefill } from './components/TransactionManager';
 import Report from './components/Report';
 import SalesHistory from './components/SalesHistory';
+import PurchaseHistory from './components/PurchaseHistory';
 import DataManager from './components/DataManager';
+import StorageWarning from './components/StorageWarning';
+import ActionHistory from './components/ActionHistory';
+import CsvManager from './components/CsvManager';
+import AuditLog from './components/AuditLog';
+import LowStockBanner from './components/LowStockBanner';
+import ExpiringSoon from './components/ExpiringSoon';
+import SupplierManager from './components/SupplierManager';
+import CatalogManager from './components/CatalogManager';
+import CostTrends from './components/CostTrends';
+import MenuPricing from './components/MenuPricing';
 
 const App: React.FC = () => {
-  const [appData, setAppData] = useLocalStorage<AppData>('appData', {
+  const [appData, setAppData, storageStatus] = useAppStorage({
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     inventory: [],
     purchases: [],
     sales: [],
-    rent: 0,
-    otherExpenses: [],
-  });
+    expenses: [],
+    products: [],
+    suppliers: [],
+    catalog: createSeedCatalog(),
+    inventorySnapshots: [],
+    stocktakes: [],
+    waste: [],
+    auditLog: [],
+    settings: DEFAULT_SETTINGS,
+  }, migrateAppData);
+  const history = useActionHistory(setAppData);
+  const { dispatch } = history;
   const [isInventoryFullScreen, setIsInventoryFullScreen] = useState(false);
+  const [purchasePrefill, setPurchasePrefill] = useState<PurchasePrefill | null>(null);
+  const transactionsRef = useRef<HTMLDivElement>(null);
 
   // Proactively sanitize data on every render to prevent crashes.
   // This uses a stricter filter to ensure all items in arrays are valid objects.
   const sanitizedAppData: AppData = useMemo(() => {
     const isValidObject = (item: unknown): item is object => item && typeof item === 'object';
     return {
-      rent: appData.rent || 0,
+      schemaVersion: appData.schemaVersion,
       inventory: (Array.isArray(appData.inventory) ? appData.inventory : []).filter(isValidObject),
       purchases: (Array.isArray(appData.purchases) ? appData.purchases : []).filter(isValidObject),
       sales: (Array.isArray(appData.sales) ? appData.sales : []).filter(isValidObject),
-      otherExpenses: (Array.isArray(appData.otherExpenses) ? appData.otherExpenses : []).filter(isValidObject),
+      expenses: (Array.isArray(appData.expenses) ? appData.expenses : []).filter(isValidObject),
+      products: (Array.isArray(appData.products) ? appData.products : []).filter(isValidObject),
+      suppliers: (Array.isArray(appData.suppliers) ? appData.suppliers : []).filter(isValidObject),
+      catalog: (Array.isArray(appData.catalog) ? appData.catalog : []).filter(isValidObject),
+      inventorySnapshots: (Array.isArray(appData.inventorySnapshots) ? appData.inventorySnapshots : []).filter(isValidObject),
+      stocktakes: (Array.isArray(appData.stocktakes) ? appData.stocktakes : []).filter(isValidObject),
+      waste: (Array.isArray(appData.waste) ? appData.waste : []).filter(isValidObject),
+      auditLog: (Array.isArray(appData.auditLog) ? appData.auditLog : []).filter(isValidObject),
+      settings: { ...DEFAULT_SETTINGS, ...(isValidObject(appData.settings) ? appData.settings : {}) },
     };
   }, [appData]);
 
-  // Effect for data migrations and persisting sanitization
+  const lowStockItems = useMemo(
+    () => getLowStockItems(sanitizedAppData.inventory, sanitizedAppData.catalog),
+    [sanitizedAppData.inventory, sanitizedAppData.catalog]
+  );
+
+  // Record the day's closing inventory value whenever stock changes. The Report
+  // uses these snapshots as opening and closing inventory when computing COGS. Earlier days'
+  // snapshots are restated by `applyAction` when a backdated record changes.
   useEffect(() => {
     setAppData(currentData => {
-      let needsUpdate = false;
-      let migratedData: AppData = JSON.parse(JSON.stringify(currentData)); // Deep copy for safe mutation
-      const isValidObject = (item: unknown): item is object => item && typeof item === 'object';
-
-      // 1. Sanitize all major arrays by filtering out invalid entries (null, primitives, etc.)
-      (['inventory', 'purchases', 'sales', 'otherExpenses'] as const).forEach(key => {
-        const originalArray = (migratedData as any)[key];
-        if (Array.isArray(originalArray)) {
-            const sanitizedArray = originalArray.filter(isValidObject);
-            if (sanitizedArray.length < originalArray.length) {
-                (migratedData as any)[key] = sanitizedArray;
-                needsUpdate = true;
-            }
-        } else {
-            // Handle corrupted data that isn't an array
-            (migratedData as any)[key] = [];
-            needsUpdate = true;
-        }
-      });
-      
-      // 2. Migrate inventory items to have IDs
-      if (Array.isArray(migratedData.inventory) && migratedData.inventory.some((item: InventoryItem) => !item.id)) {
-        needsUpdate = true;
-        migratedData.inventory = migratedData.inventory.map((item: InventoryItem, index: number) => ({
-            ...item,
-            id: item.id || `migrated-inv-${Date.now()}-${index}`
-        }));
-      }
-
-      // 3. Migrate sales to have IDs for robust editing/deleting
-      if (Array.isArray(migratedData.sales) && migratedData.sales.some((sale: Sale) => !sale.id)) {
-        needsUpdate = true;
-        migratedData.sales = migratedData.sales.map((sale: Sale, index: number) => ({
-            ...sale,
-            id: sale.id || `migrated-sale-${Date.now()}-${index}`
-        }));
-      }
-
-      return needsUpdate ? migratedData : currentData;
+      const snapshots = Array.isArray(currentData.inventorySnapshots) ? currentData.inventorySnapshots : [];
+      const inventory = Array.isArray(currentData.inventory) ? currentData.inventory : [];
+      const updated = upsertDailySnapshot(snapshots, getInventoryValue(inventory));
+      return updated ? { ...currentData, inventorySnapshots: updated } : currentData;
     });
-  }, [setAppData]);
-
+  }, [sanitizedAppData.inventory, setAppData]);
 
-  const handleAddPurchase = useCallback((purchase: Purchase) => {
-    setAppData(prevData => {
-      const purchaseWithDate = { ...purchase, date: purchase.date || new Date().toISOString() };
-      
-      const newInventoryItem: InventoryItem = {
-        id: `inv-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        item: purchase.item,
-        quantity: purchase.quantity,
-        costPerUnit: purchase.cost > 0 && purchase.quantity > 0 ? purchase.cost / purchase.quantity : 0,
-        date: purchaseWithDate.date,
-      };
-
-      return {
-        ...prevData,
-        purchases: [...prevData.purchases, purchaseWithDate],
-        inventory: [...prevData.inventory, newInventoryItem],
-      };
+  const handleAddPurchase = useCallback((purchase: Omit<Purchase, 'id' | 'lotId'>) => {
+    dispatch({
+      type: 'addPurchase',
+      purchase: {
+        ...purchase,
+        id: generateId('purchase'),
+        lotId: generateId('inv'),
+        date: purchase.date || new Date().toISOString(),
+      },
     });
-  }, [setAppData]);
+  }, [dispatch]);
+
+  const handleUpdatePurchase = useCallback((purchase: Purchase) => {
+    dispatch({ type: 'updatePurchase', purchase });
+  }, [dispatch]);
+
+  const handleDeletePurchase = useCallback((purchaseId: string) => {
+    dispatch({ type: 'deletePurchase', purchaseId });
+  }, [dispatch]);
 
   const handleAddSale = useCallback((sale: Omit<Sale, 'id'>) => {
-    setAppData(prevData => {
-      const saleWithDateAndId: Sale = {
-        ...sale,
-        id: `sale-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        date: sale.date || new Date().toISOString(),
-      };
-      return {
-        ...prevData,
-        sales: [...prevData.sales, saleWithDateAndId],
-      };
+    dispatch({
+      type: 'addSale',
+      sale: { ...sale, id: generateId('sale'), date: sale.date || new Date().toISOString() },
     });
-  }, [setAppData]);
+  }, [dispatch]);
 
-  const handleUpdateSale = useCallback((updatedSale: Sale) => {
-    setAppData(prevData => ({
-      ...prevData,
-      sales: prevData.sales.map((sale) =>
-        sale.id === updatedSale.id ? updatedSale : sale
-      ),
-    }));
-  }, [setAppData]);
+  const handleUpdateSale = useCallback((sale: Sale) => {
+    dispatch({ type: 'updateSale', sale });
+  }, [dispatch]);
 
   const handleDeleteSale = useCallback((saleId: string) => {
-    setAppData(prevData => ({
-      ...prevData,
-      sales: prevData.sales.filter((sale) => sale.id !== saleId),
-    }));
-  }, [setAppData]);
+    dispatch({ type: 'deleteSale', saleId });
+  }, [dispatch]);
 
-  const handleAddInventory = useCallback((item: Omit<InventoryItem, 'id'>) => {
-     setAppData(prevData => {
-      const existingItem = prevData.inventory.find(inv => inv.item.toLowerCase() === item.item.toLowerCase());
-      if (existingItem) {
-        alert('Item already exists. Use the "Add Purchase" form to add more stock.');
-        return prevData;
-      }
-      const newItemWithId: InventoryItem = {
-        ...item,
-        id: `inv-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      };
-      return {
-        ...prevData,
-        inventory: [...prevData.inventory, newItemWithId],
-      };
+  const handleAddWaste = useCallback((waste: Omit<WasteRecord, 'id' | 'consumption'>) => {
+    dispatch({ type: 'addWaste', waste: { ...waste, id: generateId('waste') } });
+  }, [dispatch]);
+
+  const handleDiscardLot = useCallback((lot: InventoryItem) => {
+    dispatch({
+      type: 'addWaste',
+      waste: {
+        id: generateId('waste'),
+        item: lot.item,
+        quantity: parseFloat(String(lot.quantity)) || 0,
+        reason: 'expired',
+        date: new Date().toISOString(),
+        lotId: lot.id,
+      },
     });
-  }, [setAppData]);
+  }, [dispatch]);
 
-  const handleSetRent = useCallback((rent: number) => {
-    setAppData(prevData => ({ ...prevData, rent }));
-  }, [setAppData]);
-  
-  const handleAddExpense = useCallback((expense: Expense) => {
-    setAppData(prevData => ({
-      ...prevData,
-      otherExpenses: [...prevData.otherExpenses, expense],
-    }));
-  }, [setAppData]);
+  const handleAddProduct = useCallback((product: Omit<MenuProduct, 'id'>) => {
+    dispatch({ type: 'addProduct', product: { ...product, id: generateId('prod') } });
+  }, [dispatch]);
 
-  const handleDeleteExpense = useCallback((expenseIndex: number) => {
-    setAppData(prevData => ({
-      ...prevData,
-      otherExpenses: prevData.otherExpenses.filter((_, index) => index !== expenseIndex),
-    }));
-  }, [setAppData]);
+  const handleUpdateProduct = useCallback((product: MenuProduct) => {
+    dispatch({ type: 'updateProduct', product });
+  }, [dispatch]);
 
-  const handleUpdateInventoryItem = useCallback((updatedItem: InventoryItem) => {
-    setAppData(prevData => ({
-      ...prevData,
-      inventory: prevData.inventory.map(item =>
-        item.id === updatedItem.id ? updatedItem : item
-      ),
-    }));
-  }, [setAppData]);
+  const handleDeleteProduct = useCallback((productId: string) => {
+    dispatch({ type: 'deleteProduct', productId });
+  }, [dispatch]);
+
+  const handleAddSupplier = useCallback((supplier: Omit<Supplier, 'id'>) => {
+    dispatch({ type: 'addSupplier', supplier: { ...supplier, id: generateId('sup') } });
+  }, [dispatch]);
+
+  const handleUpdateSupplier = useCallback((supplier: Supplier) => {
+    dispatch({ type: 'updateSupplier', supplier });
+  }, [dispatch]);
+
+  const handleDeleteSupplier = useCallback((supplierId: string) => {
+    dispatch({ type: 'deleteSupplier', supplierId });
+  }, [dispatch]);
+
+  const handleAddCatalogItem = useCallback((catalogItem: Omit<CatalogItem, 'id'>) => {
+    dispatch({ type: 'addCatalogItem', catalogItem: { ...catalogItem, id: generateId('cat') } });
+  }, [dispatch]);
+
+  const handleUpdateCatalogItem = useCallback((catalogItem: CatalogItem) => {
+    dispatch({ type: 'updateCatalogItem', catalogItem });
+  }, [dispatch]);
+
+  const handleMoveCatalogItem = useCallback((itemId: string, direction: -1 | 1) => {
+    dispatch({ type: 'moveCatalogItem', itemId, direction });
+  }, [dispatch]);
+
+  const handleChangeBaseUnit = useCallback((itemId: string, unit: string, factor: number) => {
+    dispatch({ type: 'changeBaseUnit', itemId, unit, factor });
+  }, [dispatch]);
+
+  const handleAddInventory = useCallback((item: Omit<InventoryItem, 'id'>) => {
+    dispatch({ type: 'addInventory', item: { ...item, id: generateId('inv') } });
+  }, [dispatch]);
+
+  const handleAddExpense = useCallback((expense: Omit<Expense, 'id'>) => {
+    dispatch({ type: 'addExpense', expense: { ...expense, id: generateId('exp') } });
+  }, [dispatch]);
+
+  const handleImportCsv = useCallback((csvImport: CsvImport) => {
+    const prefixes = { sales: 'sale', purchases: 'purchase', inventory: 'inv', expenses: 'exp' };
+    const ids = csvImport.records.map(() => generateId(prefixes[csvImport.collection]));
+    dispatch({ type: 'importCsv', csvImport, ids });
+  }, [dispatch]);
+
+  const handleImportData = useCallback((data: AppData) => {
+    dispatch({ type: 'replaceData', data });
+  }, [dispatch]);
+
+  const handleUpdateExpense = useCallback((expense: Expense) => {
+    dispatch({ type: 'updateExpense', expense });
+  }, [dispatch]);
+
+  const handleDeleteExpense = useCallback((expenseId: string) => {
+    dispatch({ type: 'deleteExpense', expenseId });
+  }, [dispatch]);
+
+  const handleUpdateSettings = useCallback((settings: Partial<Settings>) => {
+    dispatch({ type: 'updateSettings', settings });
+  }, [dispatch]);
+
+  const handleUpdateInventoryItem = useCallback((item: InventoryItem) => {
+    dispatch({ type: 'updateInventoryItem', item });
+  }, [dispatch]);
 
   const handleDeleteInventoryItem = useCallback((itemId: string) => {
-    setAppData(prevData => ({
-      ...prevData,
-      inventory: prevData.inventory.filter(item => item.id !== itemId),
-    }));
+    dispatch({ type: 'deleteInventoryItem', itemId });
+  }, [dispatch]);
+
+  const handleSaveStocktake = useCallback((stocktake: Omit<Stocktake, 'id'>) => {
+    dispatch({ type: 'saveStocktake', stocktake: { ...stocktake, id: generateId('count') } });
+  }, [dispatch]);
+
+  const handleSetReorderLevel = useCallback((item: string, level: ReorderLevel | null) => {
+    dispatch({ type: 'setReorderLevel', item, level });
+  }, [dispatch]);
+
+  const handleGenerateShoppingList = useCallback(() => {
+    setIsInventoryFullScreen(false);
+    setPurchasePrefill({
+      id: generateId('list'),
+      items: buildShoppingList(lowStockItems, sanitizedAppData.purchases, sanitizedAppData.inventory),
+    });
+    transactionsRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [lowStockItems, sanitizedAppData.purchases, sanitizedAppData.inventory]);
+
+  // Who is using the app is not a change to the books, so it is kept out of undo history and the audit log.
+  const handleSetActor = useCallback((actor: string) => {
+    setAppData(currentData => ({ ...currentData, settings: { ...DEFAULT_SETTINGS, ...currentData.settings, actor } }));
   }, [setAppData]);
 
   const handleToggleInventoryFullScreen = useCallback(() => {
@@ -184,6 +249,22 @@ const App: React.FC = () => {
   }, []);
 
 
+  if (!storageStatus.isLoaded) {
+    return (
+      <div className="min-h-screen bg-base p-4 sm:p-6 lg:p-8 flex items-center justify-center">
+        {storageStatus.loadError ? (
+          <div className="max-w-lg text-center">
+            <p className="text-xl font-semibold text-red-400">Your saved data could not be loaded.</p>
+            <p className="text-secondary mt-2">{storageStatus.loadError}</p>
+            <p className="text-gray-400 mt-2">Nothing has been changed. Reload the page to try again.</p>
+          </div>
+        ) : (
+          <p className="text-secondary">Loading your data…</p>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-base p-4 sm:p-6 lg:p-8">
       <div className="max-w-7xl mx-auto">
@@ -194,34 +275,120 @@ const App: React.FC = () => {
           <p className="text-secondary mt-2">Your offline-first inventory and cost assistant.</p>
         </header>
 
+        <StorageWarning status={storageStatus} />
+        <ActionHistory history={history} />
+        <LowStockBanner items={lowStockItems} onGenerateShoppingList={handleGenerateShoppingList} />
+
         <main className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {!isInventoryFullScreen && (
             <div className="lg:col-span-2 space-y-6">
-              <TransactionManager onAddPurchase={handleAddPurchase} onAddSale={handleAddSale} inventory={sanitizedAppData.inventory} />
+              <div ref={transactionsRef}>
+                <TransactionManager
+                  onAddPurchase={handleAddPurchase}
+                  onAddSale={handleAddSale}
+                  onAddWaste={handleAddWaste}
+                  inventory={sanitizedAppData.inventory}
+                  purchases={sanitizedAppData.purchases}
+                  catalog={sanitizedAppData.catalog}
+                  products={sanitizedAppData.products}
+                  suppliers={sanitizedAppData.suppliers}
+                  purchasePrefill={purchasePrefill}
+                  priceSpikeThreshold={sanitizedAppData.settings.priceSpikeThreshold}
+                />
+              </div>
               <Report data={sanitizedAppData} />
               <SalesHistory 
                 sales={sanitizedAppData.sales} 
                 onUpdateSale={handleUpdateSale}
                 onDeleteSale={handleDeleteSale}
               />
-              <DataManager appData={sanitizedAppData} onImportData={setAppData} />
+              <PurchaseHistory
+                purchases={sanitizedAppData.purchases}
+                inventory={sanitizedAppData.inventory}
+                suppliers={sanitizedAppData.suppliers}
+                onUpdatePurchase={handleUpdatePurchase}
+                onDeletePurchase={handleDeletePurchase}
+              />
+              <CostTrends
+                purchases={sanitizedAppData.purchases}
+                catalog={sanitizedAppData.catalog}
+                priceSpikeThreshold={sanitizedAppData.settings.priceSpikeThreshold}
+                onSetPriceSpikeThreshold={(priceSpikeThreshold) => handleUpdateSettings({ priceSpikeThreshold })}
+              />
+              <SupplierManager
+                suppliers={sanitizedAppData.suppliers}
+                purchases={sanitizedAppData.purchases}
+                onAddSupplier={handleAddSupplier}
+                onUpdateSupplier={handleUpdateSupplier}
+                onDeleteSupplier={handleDeleteSupplier}
+              />
+              <DataManager appData={sanitizedAppData} onImportData={handleImportData} />
+              <CsvManager appData={sanitizedAppData} onImportCsv={handleImportCsv} />
+              <AuditLog
+                auditLog={sanitizedAppData.auditLog}
+                actor={sanitizedAppData.settings.actor}
+                onSetActor={handleSetActor}
+              />
             </div>
           )}
 
-          <div className={isInventoryFullScreen ? "lg:col-span-3" : ""}>
+          <div className={isInventoryFullScreen ? "lg:col-span-3 space-y-6" : "space-y-6"}>
+            {!isInventoryFullScreen && (
+              <ExpenseManager
+                expenses={sanitizedAppData.expenses}
+                onAddExpense={handleAddExpense}
+                onUpdateExpense={handleUpdateExpense}
+                onDeleteExpense={handleDeleteExpense}
+              />
+            )}
+            {!isInventoryFullScreen && (
+              <ExpiringSoon inventory={sanitizedAppData.inventory} onDiscardLot={handleDiscardLot} />
+            )}
             <InventoryManager 
               inventory={sanitizedAppData.inventory} 
               onAddInventory={handleAddInventory} 
-              onSetRent={handleSetRent} 
-              currentRent={appData.rent}
-              onAddExpense={handleAddExpense}
-              onDeleteExpense={handleDeleteExpense}
-              currentOtherExpenses={sanitizedAppData.otherExpenses}
+              costingMethod={sanitizedAppData.settings.costingMethod}
+              onSetCostingMethod={(costingMethod) => handleUpdateSettings({ costingMethod })}
               onUpdateInventoryItem={handleUpdateInventoryItem}
               onDeleteInventoryItem={handleDeleteInventoryItem}
+              catalog={sanitizedAppData.catalog}
+              onSetReorderLevel={handleSetReorderLevel}
               isFullScreen={isInventoryFullScreen}
               onToggleFullScreen={handleToggleInventoryFullScreen}
             />
+            <StocktakeManager
+              inventory={sanitizedAppData.inventory}
+              stocktakes={sanitizedAppData.stocktakes}
+              onSaveStocktake={handleSaveStocktake}
+            />
+            {!isInventoryFullScreen && (
+              <CatalogManager
+                catalog={sanitizedAppData.catalog}
+                onAddCatalogItem={handleAddCatalogItem}
+                onUpdateCatalogItem={handleUpdateCatalogItem}
+                onMoveCatalogItem={handleMoveCatalogItem}
+                onChangeBaseUnit={handleChangeBaseUnit}
+              />
+            )}
+            {!isInventoryFullScreen && (
+              <ProductManager
+                products={sanitizedAppData.products}
+                catalog={sanitizedAppData.catalog}
+                onAddProduct={handleAddProduct}
+                onUpdateProduct={handleUpdateProduct}
+                onDeleteProduct={handleDeleteProduct}
+              />
+            )}
+            {!isInventoryFullScreen && (
+              <MenuPricing
+                products={sanitizedAppData.products}
+                inventory={sanitizedAppData.inventory}
+                catalog={sanitizedAppData.catalog}
+                targetMargin={sanitizedAppData.settings.targetMargin}
+                onSetTargetMargin={(targetMargin) => handleUpdateSettings({ targetMargin })}
+                onUpdateProduct={handleUpdateProduct}
+              />
+            )}
           </div>
         </main>
       </div>
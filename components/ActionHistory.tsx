@@ -0,0 +1,124 @@
+
+import React, { useState, useEffect } from 'react';
+import { ActionHistory as ActionHistoryState } from '../hooks/useActionHistory';
+import Card from './ui/Card';
+import Button from './ui/Button';
+
+interface ActionHistoryProps {
+  history: ActionHistoryState;
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Inside text fields the browser's own undo should win.
+const isEditingText = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+
+const ActionHistory: React.FC<ActionHistoryProps> = ({ history }) => {
+  const { undo, redo, revert, past, future } = history;
+  const [isOpen, setIsOpen] = useState(false);
+  const [entryToRevertId, setEntryToRevertId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditingText(event.target)) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const lastDone = past[past.length - 1];
+  const nextRedo = future[0];
+
+  return (
+    <Card className="mb-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          onClick={undo}
+          disabled={!lastDone}
+          className="text-sm py-1 px-3"
+          title={lastDone ? `Undo: ${lastDone.label} (Ctrl+Z)` : 'Nothing to undo'}
+        >
+          ↶ Undo
+        </Button>
+        <Button
+          onClick={redo}
+          disabled={!nextRedo}
+          className="text-sm py-1 px-3"
+          title={nextRedo ? `Redo: ${nextRedo.label} (Ctrl+Y)` : 'Nothing to redo'}
+        >
+          ↷ Redo
+        </Button>
+        <span className="text-sm text-gray-400 truncate flex-1 min-w-0">
+          {lastDone ? `Last: ${lastDone.label}` : 'No changes yet in this session.'}
+        </span>
+        <button onClick={() => setIsOpen(prev => !prev)} className="text-sm text-primary hover:text-accent">
+          {isOpen ? 'Hide History' : `History (${past.length})`}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 border-t border-sky-900 pt-4">
+          {past.length === 0 && future.length === 0 ? (
+            <p className="text-center text-gray-400">Changes you make will be listed here.</p>
+          ) : (
+            <ul className="space-y-2 max-h-72 overflow-y-auto pr-1">
+              {future.slice().reverse().map(entry => (
+                <li key={entry.id} className="bg-gray-900 p-2 rounded-md flex justify-between items-center gap-2 opacity-60">
+                  <span className="line-through">{entry.label}</span>
+                  <span className="text-xs text-gray-400 flex-shrink-0">undone</span>
+                </li>
+              ))}
+              {past.slice().reverse().map(entry => (
+                <li key={entry.id} className="bg-gray-900 p-2 rounded-md">
+                  {entryToRevertId === entry.id ? (
+                    <div className="flex justify-between items-center gap-2">
+                      <span className="font-medium text-red-400">Revert “{entry.label}”?</span>
+                      <div className="flex gap-2">
+                        <Button
+                          onClick={() => { revert(entry.id); setEntryToRevertId(null); }}
+                          className="bg-red-600 hover:bg-red-700 text-xs py-1 px-2"
+                        >
+                          Confirm
+                        </Button>
+                        <Button onClick={() => setEntryToRevertId(null)} className="bg-gray-600 hover:bg-gray-700 text-xs py-1 px-2">Cancel</Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex justify-between items-center gap-2">
+                      <div className="min-w-0">
+                        <p className="truncate">{entry.label}</p>
+                        <p className="text-xs text-gray-400">{formatTime(entry.at)}</p>
+                      </div>
+                      <button
+                        onClick={() => setEntryToRevertId(entry.id)}
+                        className="text-sm text-primary hover:text-accent flex-shrink-0"
+                      >
+                        Revert
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-gray-500 mt-2">
+            Reverting an older change keeps everything done after it. History is cleared when the page is reloaded.
+          </p>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default ActionHistory;
@@ -0,0 +1,201 @@
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { AuditEntity, AuditEntry, AuditOperation } from '../types';
+import { AUDIT_ENTITY_LABELS, AUDIT_OPERATION_LABELS, describeAuditRecord, getChangedFields } from '../utils/audit';
+import Card from './ui/Card';
+import Input from './ui/Input';
+
+interface AuditLogProps {
+  auditLog: AuditEntry[];
+  actor: string;
+  onSetActor: (actor: string) => void;
+}
+
+const PAGE_SIZE = 50;
+
+const UNKNOWN_ACTOR = 'Unknown';
+
+const selectClassName = 'bg-gray-900 border border-sky-900 text-secondary text-sm rounded-lg focus:ring-primary focus:border-primary block w-full p-2.5';
+
+const operationClassNames: Record<AuditOperation, string> = {
+  create: 'text-green-400',
+  update: 'text-yellow-400',
+  delete: 'text-red-400',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Date inputs give local calendar days.
+const toDayStart = (day: string) => new Date(`${day}T00:00:00`).getTime();
+const toDayEnd = (day: string) => new Date(`${day}T23:59:59.999`).getTime();
+
+const AuditLog: React.FC<AuditLogProps> = ({ auditLog, actor, onSetActor }) => {
+  const [actorName, setActorName] = useState(actor);
+  const [entityFilter, setEntityFilter] = useState<AuditEntity | 'all'>('all');
+  const [operationFilter, setOperationFilter] = useState<AuditOperation | 'all'>('all');
+  const [actorFilter, setActorFilter] = useState('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [search, setSearch] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [expandedEntryId, setExpandedEntryId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setActorName(actor);
+  }, [actor]);
+
+  const actors = useMemo(
+    () => Array.from(new Set(auditLog.map(entry => entry.actor || UNKNOWN_ACTOR))).sort(),
+    [auditLog]
+  );
+
+  const filteredEntries = useMemo(() => {
+    const from = fromDate ? toDayStart(fromDate) : -Infinity;
+    const to = toDate ? toDayEnd(toDate) : Infinity;
+    const query = search.trim().toLowerCase();
+    return auditLog
+      .filter(entry => {
+        const time = new Date(entry.at).getTime();
+        return (entityFilter === 'all' || entry.entity === entityFilter)
+          && (operationFilter === 'all' || entry.operation === operationFilter)
+          && (actorFilter === 'all' || (entry.actor || UNKNOWN_ACTOR) === actorFilter)
+          && time >= from && time <= to
+          && (!query || `${describeAuditRecord(entry)} ${entry.cause}`.toLowerCase().includes(query));
+      })
+      .sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+  }, [auditLog, entityFilter, operationFilter, actorFilter, fromDate, toDate, search]);
+
+  // A new filter starts again from the newest entries.
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+  }, [entityFilter, operationFilter, actorFilter, fromDate, toDate, search]);
+
+  const handleActorBlur = () => {
+    const trimmed = actorName.trim();
+    if (trimmed !== actor) {
+      onSetActor(trimmed);
+    }
+  };
+
+  return (
+    <Card>
+      <h2 className="text-2xl font-bold text-primary mb-4">Audit Log</h2>
+
+      <div className="mb-4">
+        <label htmlFor="audit-actor" className="block text-sm text-gray-400 mb-1">Changes on this device are recorded as</label>
+        <Input
+          id="audit-actor"
+          value={actorName}
+          onChange={(e) => setActorName(e.target.value)}
+          onBlur={handleActorBlur}
+          onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          placeholder="Your name"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-4">
+        <select
+          value={entityFilter}
+          onChange={(e) => setEntityFilter(e.target.value as AuditEntity | 'all')}
+          className={selectClassName}
+          aria-label="Record type"
+        >
+          <option value="all">All records</option>
+          {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntity[]).map(entity => (
+            <option key={entity} value={entity}>{AUDIT_ENTITY_LABELS[entity]}</option>
+          ))}
+        </select>
+        <select
+          value={operationFilter}
+          onChange={(e) => setOperationFilter(e.target.value as AuditOperation | 'all')}
+          className={selectClassName}
+          aria-label="Change"
+        >
+          <option value="all">All changes</option>
+          {(Object.keys(AUDIT_OPERATION_LABELS) as AuditOperation[]).map(operation => (
+            <option key={operation} value={operation}>{AUDIT_OPERATION_LABELS[operation]}</option>
+          ))}
+        </select>
+        <select
+          value={actorFilter}
+          onChange={(e) => setActorFilter(e.target.value)}
+          className={selectClassName}
+          aria-label="Made by"
+        >
+          <option value="all">Everyone</option>
+          {actors.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} aria-label="From" />
+        <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} aria-label="To" />
+        <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search" />
+      </div>
+
+      {filteredEntries.length === 0 ? (
+        <p className="text-center text-gray-400">
+          {auditLog.length === 0 ? 'Changes to sales, purchases, inventory and expenses will be recorded here.' : 'No entries match these filters.'}
+        </p>
+      ) : (
+        <>
+          <ul className="space-y-2 max-h-96 overflow-y-auto pr-1">
+            {filteredEntries.slice(0, visibleCount).map(entry => (
+              <li key={entry.id} className="bg-gray-900 p-2 rounded-md">
+                <button
+                  onClick={() => setExpandedEntryId(prev => (prev === entry.id ? null : entry.id))}
+                  className="w-full text-left"
+                >
+                  <div className="flex justify-between items-center gap-2">
+                    <p className="truncate">
+                      <span className={operationClassNames[entry.operation]}>{AUDIT_OPERATION_LABELS[entry.operation]}</span>
+                      {' '}{AUDIT_ENTITY_LABELS[entry.entity].toLowerCase()}: {describeAuditRecord(entry)}
+                    </p>
+                    <span className="text-xs text-gray-400 flex-shrink-0">{entry.actor || UNKNOWN_ACTOR}</span>
+                  </div>
+                  <p className="text-xs text-gray-400 truncate">
+                    {new Date(entry.at).toLocaleString()} · {entry.cause}
+                  </p>
+                </button>
+                {expandedEntryId === entry.id && (
+                  <div className="overflow-x-auto mt-2">
+                    <table className="w-full text-left text-xs">
+                      <thead>
+                        <tr className="border-b border-sky-900">
+                          <th className="p-1 font-bold text-primary">Field</th>
+                          <th className="p-1 font-bold text-primary">Before</th>
+                          <th className="p-1 font-bold text-primary">After</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {getChangedFields(entry).map(field => (
+                          <tr key={field} className="border-b border-gray-800">
+                            <td className="p-1 font-medium">{field}</td>
+                            <td className="p-1 break-all">{formatValue((entry.before as Record<string, unknown> | undefined)?.[field])}</td>
+                            <td className="p-1 break-all">{formatValue((entry.after as Record<string, unknown> | undefined)?.[field])}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="flex justify-between items-center mt-2 text-sm text-gray-400">
+            <span>Showing {Math.min(visibleCount, filteredEntries.length)} of {filteredEntries.length}</span>
+            {visibleCount < filteredEntries.length && (
+              <button onClick={() => setVisibleCount(prev => prev + PAGE_SIZE)} className="text-primary hover:text-accent">
+                Show more
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,346 @@
+
+import React, { useState, useMemo } from 'react';
+import { CatalogItem, PurchaseUnit, ReorderLevel } from '../types';
+import { findCatalogItem } from '../utils/catalog';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Input from './ui/Input';
+
+interface CatalogManagerProps {
+  catalog: CatalogItem[];
+  onAddCatalogItem: (catalogItem: Omit<CatalogItem, 'id'>) => void;
+  onUpdateCatalogItem: (catalogItem: CatalogItem) => void;
+  onMoveCatalogItem: (itemId: string, direction: -1 | 1) => void;
+  onChangeBaseUnit: (itemId: string, unit: string, factor: number) => void;
+}
+
+interface PurchaseUnitRow {
+  name: string;
+  factor: string;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-PH', { style: 'currency', currency: 'PHP' }).format(value);
+};
+
+const formatQuantity = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const CatalogManager: React.FC<CatalogManagerProps> = ({ catalog, onAddCatalogItem, onUpdateCatalogItem, onMoveCatalogItem, onChangeBaseUnit }) => {
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState('');
+  const [unit, setUnit] = useState('');
+  const [defaultCost, setDefaultCost] = useState('');
+  const [purchaseUnitRows, setPurchaseUnitRows] = useState<PurchaseUnitRow[]>([]);
+  const [reorderPoint, setReorderPoint] = useState('');
+  const [parLevel, setParLevel] = useState('');
+  const [newBaseUnit, setNewBaseUnit] = useState('');
+  const [conversionFactor, setConversionFactor] = useState('');
+
+  const activeItems = useMemo(() => (catalog || []).filter(entry => !entry.archived), [catalog]);
+  const archivedItems = useMemo(() => (catalog || []).filter(entry => entry.archived), [catalog]);
+
+  const categories = useMemo(
+    () => Array.from(new Set<string>((catalog || []).map(entry => entry.category).filter(Boolean))).sort((a, b) => a.localeCompare(b)),
+    [catalog]
+  );
+
+  const editingItem = (catalog || []).find(entry => entry.id === editingItemId);
+
+  // Lots, purchases and recipes match ingredients by name, so two entries cannot share one.
+  const duplicate = name.trim() ? findCatalogItem(catalog || [], name) : undefined;
+  const isDuplicate = !!duplicate && duplicate.id !== editingItemId;
+  // Rows left without a name are dropped; a named row needs a positive factor.
+  const namedUnitRows = purchaseUnitRows.filter(row => row.name.trim());
+  const areUnitsValid = namedUnitRows.every(row => parseFloat(row.factor) > 0);
+  // Both reorder fields left blank means no reorder level; par has to be above the reorder point,
+  // otherwise restocking would not clear the alert.
+  const hasReorderLevel = !!reorderPoint.trim() || !!parLevel.trim();
+  const isReorderLevelValid = !hasReorderLevel || (parseFloat(reorderPoint) >= 0 && parseFloat(parLevel) > parseFloat(reorderPoint));
+  const isFormValid = !!name.trim() && !isDuplicate && parseFloat(defaultCost) >= 0 && areUnitsValid && isReorderLevelValid;
+
+  // Once an ingredient has a base unit, its records are counted in it, so changing it means converting them.
+  const hasBaseUnit = !!editingItem?.unit;
+  const isConversionValid = !!newBaseUnit.trim() && newBaseUnit.trim() !== editingItem?.unit && parseFloat(conversionFactor) > 0;
+
+  const resetForm = () => {
+    setEditingItemId(null);
+    setName('');
+    setCategory('');
+    setUnit('');
+    setDefaultCost('');
+    setPurchaseUnitRows([]);
+    setReorderPoint('');
+    setParLevel('');
+    setNewBaseUnit('');
+    setConversionFactor('');
+  };
+
+  const handleEditClick = (entry: CatalogItem) => {
+    setEditingItemId(entry.id);
+    setName(entry.name);
+    setCategory(entry.category);
+    setUnit(entry.unit);
+    setDefaultCost(String(entry.defaultCost));
+    setPurchaseUnitRows((entry.purchaseUnits || []).map(unitEntry => ({ name: unitEntry.name, factor: String(unitEntry.factor) })));
+    setReorderPoint(entry.reorderLevel ? String(entry.reorderLevel.reorderPoint) : '');
+    setParLevel(entry.reorderLevel ? String(entry.reorderLevel.parLevel) : '');
+    setNewBaseUnit('');
+    setConversionFactor('');
+  };
+
+  const handleUnitRowChange = (index: number, field: keyof PurchaseUnitRow, value: string) => {
+    setPurchaseUnitRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleConvertClick = () => {
+    if (editingItem && isConversionValid) {
+      onChangeBaseUnit(editingItem.id, newBaseUnit.trim(), parseFloat(conversionFactor));
+      resetForm();
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isFormValid) {
+      return;
+    }
+    const purchaseUnits: PurchaseUnit[] = namedUnitRows.map(row => ({ name: row.name.trim(), factor: parseFloat(row.factor) }));
+    const reorderLevel: ReorderLevel | null = hasReorderLevel
+      ? { reorderPoint: parseFloat(reorderPoint), parLevel: parseFloat(parLevel) }
+      : null;
+    const fields = {
+      name: name.trim(),
+      category: category.trim(),
+      unit: unit.trim(),
+      defaultCost: parseFloat(defaultCost),
+      ...(purchaseUnits.length > 0 ? { purchaseUnits } : {}),
+      ...(reorderLevel ? { reorderLevel } : {}),
+    };
+    if (editingItem) {
+      const { purchaseUnits: _previousUnits, reorderLevel: _previousLevel, ...rest } = editingItem;
+      onUpdateCatalogItem({ ...rest, ...fields });
+    } else {
+      onAddCatalogItem(fields);
+    }
+    resetForm();
+  };
+
+  const handleArchiveClick = (entry: CatalogItem, archived: boolean) => {
+    const { archived: _archived, ...rest } = entry;
+    onUpdateCatalogItem(archived ? { ...rest, archived: true } : rest);
+    if (editingItemId === entry.id) {
+      resetForm();
+    }
+  };
+
+  const renderDetails = (entry: CatalogItem) => (
+    <div className="min-w-0">
+      <p className="font-semibold truncate">{entry.name}</p>
+      <p className="text-xs text-gray-400">
+        {[entry.category, entry.unit && `per ${entry.unit}`].filter(Boolean).join(' · ')}
+        {(entry.category || entry.unit) && ' · '}
+        {formatCurrency(entry.defaultCost)}
+      </p>
+      {(entry.purchaseUnits || []).length > 0 && (
+        <p className="text-xs text-gray-500">
+          {(entry.purchaseUnits || []).map(unitEntry => `1 ${unitEntry.name} = ${formatQuantity(unitEntry.factor)} ${entry.unit}`).join(', ')}
+        </p>
+      )}
+      {entry.reorderLevel && (
+        <p className="text-xs text-gray-500">
+          Reorder at {formatQuantity(entry.reorderLevel.reorderPoint)}, restock up to {formatQuantity(entry.reorderLevel.parLevel)}
+        </p>
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <h2 className="text-2xl font-bold text-primary mb-4">Ingredient Catalog</h2>
+
+      {activeItems.length > 0 ? (
+        <ul className="space-y-2 mb-4 max-h-96 overflow-y-auto pr-1">
+          {activeItems.map((entry, index) => (
+            <li key={entry.id} className="bg-gray-900 p-2 rounded-md flex justify-between items-center gap-2">
+              {renderDetails(entry)}
+              <div className="flex gap-2 flex-shrink-0 items-center">
+                <button
+                  onClick={() => onMoveCatalogItem(entry.id, -1)}
+                  disabled={index === 0}
+                  className="text-primary hover:text-accent disabled:opacity-30"
+                  aria-label={`Move ${entry.name} up`}
+                >
+                  ▲
+                </button>
+                <button
+                  onClick={() => onMoveCatalogItem(entry.id, 1)}
+                  disabled={index === activeItems.length - 1}
+                  className="text-primary hover:text-accent disabled:opacity-30"
+                  aria-label={`Move ${entry.name} down`}
+                >
+                  ▼
+                </button>
+                <button onClick={() => handleEditClick(entry)} className="text-primary hover:text-accent">✏️</button>
+                <button onClick={() => handleArchiveClick(entry, true)} className="text-sm text-gray-400 hover:text-red-400">Archive</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-center text-gray-400 mb-4">No active ingredients.</p>
+      )}
+
+      {archivedItems.length > 0 && (
+        <div className="mb-6">
+          <button onClick={() => setShowArchived(prev => !prev)} className="text-sm text-primary hover:text-accent">
+            {showArchived ? 'Hide' : 'Show'} archived ({archivedItems.length})
+          </button>
+          {showArchived && (
+            <ul className="space-y-2 mt-2">
+              {archivedItems.map(entry => (
+                <li key={entry.id} className="bg-gray-900/50 p-2 rounded-md flex justify-between items-center gap-2 text-gray-400">
+                  {renderDetails(entry)}
+                  <button onClick={() => handleArchiveClick(entry, false)} className="text-sm text-primary hover:text-accent flex-shrink-0">Restore</button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <h3 className="text-lg font-semibold text-secondary">{editingItemId ? 'Edit Ingredient' : 'Add Ingredient'}</h3>
+        <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name (e.g., Mozzarella)" />
+        {isDuplicate && <p className="text-xs text-red-400">{duplicate!.name} is already in the catalog{duplicate!.archived ? ' (archived)' : ''}.</p>}
+        {editingItem && name.trim() && name.trim() !== editingItem.name && !isDuplicate && (
+          <p className="text-xs text-gray-400">Renaming also renames it in stock, purchases and recipes.</p>
+        )}
+        <div className="grid grid-cols-3 gap-2">
+          <Input value={category} onChange={(e) => setCategory(e.target.value)} placeholder="Category" list="catalog-categories" />
+          <datalist id="catalog-categories">
+            {categories.map(option => <option key={option} value={option} />)}
+          </datalist>
+          <Input
+            value={unit}
+            onChange={(e) => setUnit(e.target.value)}
+            placeholder="Base unit (e.g., g)"
+            disabled={hasBaseUnit}
+            title={hasBaseUnit ? 'Use Change Base Unit below to convert existing records' : undefined}
+          />
+          <Input
+            type="number"
+            min="0"
+            step="any"
+            value={defaultCost}
+            onChange={(e) => setDefaultCost(e.target.value)}
+            placeholder="Cost/Unit"
+            aria-label="Default cost per base unit"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-secondary mb-1">Purchase units</label>
+          <div className="space-y-2">
+            {purchaseUnitRows.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="text-gray-400 text-sm">1</span>
+                <Input
+                  value={row.name}
+                  onChange={(e) => handleUnitRowChange(index, 'name', e.target.value)}
+                  placeholder="e.g., block"
+                  aria-label="Purchase unit"
+                />
+                <span className="text-gray-400 text-sm">=</span>
+                <Input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={row.factor}
+                  onChange={(e) => handleUnitRowChange(index, 'factor', e.target.value)}
+                  placeholder="Amount"
+                  className="w-28 text-right"
+                  aria-label={`Base units in one ${row.name || 'purchase unit'}`}
+                />
+                <span className="text-gray-400 text-sm w-12 truncate">{unit.trim() || 'units'}</span>
+                <button
+                  type="button"
+                  onClick={() => setPurchaseUnitRows(prev => prev.filter((_, i) => i !== index))}
+                  className="text-red-500 hover:text-red-400"
+                  aria-label="Remove purchase unit"
+                >
+                  ✗
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setPurchaseUnitRows(prev => [...prev, { name: '', factor: '' }])}
+            className="text-sm text-primary hover:text-accent mt-2"
+          >
+            + Add purchase unit
+          </button>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-secondary mb-1">Reorder level</label>
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              value={reorderPoint}
+              onChange={(e) => setReorderPoint(e.target.value)}
+              placeholder={`Reorder at${unit.trim() ? ` (${unit.trim()})` : ''}`}
+              aria-label="Reorder point"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              value={parLevel}
+              onChange={(e) => setParLevel(e.target.value)}
+              placeholder={`Restock up to${unit.trim() ? ` (${unit.trim()})` : ''}`}
+              aria-label="Par level"
+            />
+          </div>
+          {!isReorderLevelValid && <p className="text-xs text-red-400 mt-1">Par must be above the reorder point.</p>}
+        </div>
+        {hasBaseUnit && editingItem && (
+          <div className="bg-gray-900 p-3 rounded-lg space-y-2">
+            <p className="text-sm font-medium text-secondary">Change base unit</p>
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-gray-400 whitespace-nowrap">1 {editingItem.unit} =</span>
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                value={conversionFactor}
+                onChange={(e) => setConversionFactor(e.target.value)}
+                placeholder="Amount"
+                className="w-28 text-right"
+                aria-label="New units in one old unit"
+              />
+              <Input
+                value={newBaseUnit}
+                onChange={(e) => setNewBaseUnit(e.target.value)}
+                placeholder="New unit"
+                aria-label="New base unit"
+              />
+              <Button type="button" onClick={handleConvertClick} disabled={!isConversionValid} className="text-xs py-1 px-2 whitespace-nowrap">Convert</Button>
+            </div>
+            <p className="text-xs text-gray-400">Stock, purchases, recipes, counts and reorder levels are converted, so their costs stay the same.</p>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Button type="submit" className="w-full" disabled={!isFormValid}>{editingItemId ? 'Save Ingredient' : 'Add Ingredient'}</Button>
+          {editingItemId && (
+            <Button type="button" onClick={resetForm} className="bg-gray-600 hover:bg-gray-700">Cancel</Button>
+          )}
+        </div>
+      </form>
+    </Card>
+  );
+};
+
+export default CatalogManager;
@@ -0,0 +1,162 @@
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { CatalogItem, Purchase } from '../types';
+import { PRICE_AVERAGE_WINDOW } from '../constants';
+import { isSameItem } from '../utils/inventory';
+import { getCostTrend } from '../utils/priceTrends';
+import Card from './ui/Card';
+import Input from './ui/Input';
+
+interface CostTrendsProps {
+  purchases: Purchase[];
+  catalog: CatalogItem[];
+  priceSpikeThreshold: number;
+  onSetPriceSpikeThreshold: (threshold: number) => void;
+}
+
+const selectClassName = 'bg-gray-900 border border-sky-900 text-secondary text-sm rounded-lg focus:ring-primary focus:border-primary block w-full p-2.5';
+
+const RECENT_POINTS = 8;
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-PH', { style: 'currency', currency: 'PHP' }).format(value);
+};
+
+const formatChange = (changePercent: number) => `${changePercent >= 0 ? '+' : ''}${changePercent.toFixed(1)}%`;
+
+const CostTrends: React.FC<CostTrendsProps> = ({ purchases, catalog, priceSpikeThreshold, onSetPriceSpikeThreshold }) => {
+  const [trendItem, setTrendItem] = useState('');
+  const [threshold, setThreshold] = useState(String(priceSpikeThreshold));
+
+  useEffect(() => {
+    setThreshold(String(priceSpikeThreshold));
+  }, [priceSpikeThreshold]);
+
+  // Bought ingredients in catalog order, then any the catalog no longer has.
+  const purchasedItems = useMemo(() => {
+    const names: string[] = [];
+    (purchases || []).forEach(purchase => {
+      if (purchase.item && !names.some(name => isSameItem(name, purchase.item))) names.push(purchase.item);
+    });
+    const position = (name: string) => {
+      const index = (catalog || []).findIndex(entry => isSameItem(entry.name, name));
+      return index === -1 ? Infinity : index;
+    };
+    return names.sort((a, b) => position(a) - position(b) || a.localeCompare(b));
+  }, [purchases, catalog]);
+
+  const selectedItem = purchasedItems.includes(trendItem) ? trendItem : purchasedItems[0] || '';
+
+  const trend = useMemo(
+    () => (selectedItem ? getCostTrend(purchases || [], selectedItem) : []),
+    [purchases, selectedItem]
+  );
+
+  const latest = trend[trend.length - 1];
+  const recentPoints = trend.slice(-RECENT_POINTS).reverse();
+
+  const handleThresholdBlur = () => {
+    const value = parseFloat(threshold);
+    if (value >= 0 && value !== priceSpikeThreshold) {
+      onSetPriceSpikeThreshold(value);
+    } else {
+      setThreshold(String(priceSpikeThreshold));
+    }
+  };
+
+  return (
+    <Card>
+      <h2 className="text-2xl font-bold text-primary mb-4">Ingredient Cost Trends</h2>
+
+      <div className="mb-4">
+        <label htmlFor="price-spike-threshold" className="block text-sm text-gray-400 mb-1">
+          Ask before recording a purchase priced this far above the average of the last {PRICE_AVERAGE_WINDOW} (%)
+        </label>
+        <Input
+          id="price-spike-threshold"
+          type="number"
+          min="0"
+          step="1"
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          onBlur={handleThresholdBlur}
+          onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          className="w-32"
+        />
+      </div>
+
+      {purchasedItems.length === 0 ? (
+        <p className="text-center text-gray-400">Record purchases to see how ingredient costs change.</p>
+      ) : (
+        <>
+          <select
+            value={selectedItem}
+            onChange={(e) => setTrendItem(e.target.value)}
+            className={`${selectClassName} mb-4`}
+            aria-label="Ingredient"
+          >
+            {purchasedItems.map(item => (
+              <option key={item} value={item}>{item}</option>
+            ))}
+          </select>
+
+          {latest && (
+            <p className="text-sm mb-4">
+              Latest {formatCurrency(latest.unitPrice)} per unit
+              {latest.changePercent !== null && (
+                <span className={latest.changePercent > priceSpikeThreshold ? 'text-red-400' : 'text-gray-400'}>
+                  {' '}({formatChange(latest.changePercent)} vs the {formatCurrency(latest.rollingAverage!)} rolling average)
+                </span>
+              )}
+            </p>
+          )}
+
+          {trend.length > 1 && (
+            <div className="h-64 w-full mb-4">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={trend} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="day" stroke="#d0e6ff" />
+                  <YAxis stroke="#d0e6ff" tickFormatter={(value) => `₱${value}`} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#111827', border: '1px solid #0ea5e9', color: '#d0e6ff' }}
+                    formatter={(value: number) => formatCurrency(value)}
+                  />
+                  <Legend wrapperStyle={{ color: '#d0e6ff' }} />
+                  <Line type="monotone" dataKey="unitPrice" name="Unit cost" stroke="#66ccff" dot={{ r: 3 }} />
+                  <Line type="monotone" dataKey="rollingAverage" name="Rolling average" stroke="#f59e0b" strokeDasharray="5 5" dot={false} connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="border-b border-sky-900">
+                  <th className="p-2 font-bold text-primary">Date</th>
+                  <th className="p-2 text-right font-bold text-primary">Unit Cost</th>
+                  <th className="p-2 text-right font-bold text-primary">vs Average</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recentPoints.map((point, index) => (
+                  <tr key={`${point.day}-${index}`} className="border-b border-gray-800">
+                    <td className="p-2 text-gray-400">{new Date(`${point.day}T00:00:00`).toLocaleDateString()}</td>
+                    <td className="p-2 text-right">{formatCurrency(point.unitPrice)}</td>
+                    <td className={`p-2 text-right ${point.changePercent !== null && point.changePercent > priceSpikeThreshold ? 'text-red-400 font-semibold' : ''}`}>
+                      {point.changePercent === null ? '—' : formatChange(point.changePercent)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default CostTrends;
@@ -0,0 +1,259 @@
+
+import React, { useRef, useState, useMemo } from 'react';
+import { AppData } from '../types';
+import {
+  CSV_COLLECTION_LABELS,
+  CSV_COLUMNS,
+  CsvCollection,
+  CsvImport,
+  CsvMapping,
+  exportCollectionCsv,
+  guessCsvMapping,
+  parseCsv,
+  readCsvRecords,
+} from '../utils/csv';
+import { addDays, startOfDay } from '../utils/periods';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Input from './ui/Input';
+
+interface CsvManagerProps {
+  appData: AppData;
+  onImportCsv: (csvImport: CsvImport) => void;
+}
+
+interface PendingFile {
+  name: string;
+  headers: string[];
+  rows: string[][];
+}
+
+const PREVIEW_ROWS = 10;
+
+const selectClassName = 'bg-gray-900 border border-sky-900 text-secondary text-sm rounded-lg focus:ring-primary focus:border-primary block w-full p-2.5';
+
+const formatCell = (key: string, value: unknown) => {
+  if (value === undefined) return '';
+  if (key === 'date' || key === 'effectiveTo') return new Date(String(value)).toLocaleDateString();
+  return String(value);
+};
+
+const CsvManager: React.FC<CsvManagerProps> = ({ appData, onImportCsv }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [collection, setCollection] = useState<CsvCollection>('sales');
+  const [exportStart, setExportStart] = useState('');
+  const [exportEnd, setExportEnd] = useState('');
+  const [pendingFile, setPendingFile] = useState<PendingFile | null>(null);
+  const [mapping, setMapping] = useState<CsvMapping>({});
+
+  const columns = CSV_COLUMNS[collection];
+
+  const preview = useMemo(
+    () => (pendingFile ? readCsvRecords(collection, pendingFile.rows, mapping) : null),
+    [collection, pendingFile, mapping]
+  );
+
+  const handleCollectionChange = (value: CsvCollection) => {
+    setCollection(value);
+    if (pendingFile) {
+      setMapping(guessCsvMapping(value, pendingFile.headers));
+    }
+  };
+
+  const handleExport = () => {
+    // Either bound may be left empty; the end date is inclusive.
+    const range = exportStart || exportEnd
+      ? {
+          start: exportStart ? startOfDay(new Date(`${exportStart}T00:00:00`)) : new Date(0),
+          end: exportEnd ? addDays(new Date(`${exportEnd}T00:00:00`), 1) : new Date(8.64e15),
+        }
+      : null;
+    try {
+      const csv = exportCollectionCsv(appData, collection, range);
+      const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      const suffix = range ? `${exportStart || 'start'}-to-${exportEnd || 'today'}` : new Date().toISOString().split('T')[0];
+      link.download = `pizza-kiosk-${collection}-${suffix}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting CSV:", error);
+      alert("Could not export CSV. See console for details.");
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = e.target?.result;
+      const rows = typeof text === 'string' ? parseCsv(text.replace(/^\uFEFF/, '')) : [];
+      if (rows.length < 2) {
+        alert("The file has no data rows. The first row must contain column headers.");
+      } else {
+        const [headers, ...dataRows] = rows;
+        setPendingFile({ name: file.name, headers, rows: dataRows });
+        setMapping(guessCsvMapping(collection, headers));
+      }
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleMappingChange = (key: string, value: string) => {
+    setMapping(prev => ({ ...prev, [key]: value === '' ? undefined : Number(value) }));
+  };
+
+  const handleCancelImport = () => {
+    setPendingFile(null);
+    setMapping({});
+  };
+
+  const handleConfirmImport = () => {
+    if (!preview || preview.result.records.length === 0) {
+      return;
+    }
+    onImportCsv(preview.result);
+    alert(`Imported ${preview.result.records.length} ${CSV_COLLECTION_LABELS[collection].toLowerCase()} rows.`);
+    handleCancelImport();
+  };
+
+  const validCount = preview?.result.records.length ?? 0;
+  const previewRecords = (preview?.result.records ?? []).slice(0, PREVIEW_ROWS) as Record<string, unknown>[];
+
+  return (
+    <Card>
+      <h2 className="text-2xl font-bold text-primary mb-4">Spreadsheets (CSV)</h2>
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="csv-collection" className="block text-sm font-medium text-secondary mb-1">Records</label>
+          <select
+            id="csv-collection"
+            value={collection}
+            onChange={(e) => handleCollectionChange(e.target.value as CsvCollection)}
+            className={selectClassName}
+          >
+            {(Object.keys(CSV_COLLECTION_LABELS) as CsvCollection[]).map(key => (
+              <option key={key} value={key}>{CSV_COLLECTION_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <label htmlFor="csv-export-start" className="block text-sm font-medium text-secondary mb-1">From (optional)</label>
+            <Input id="csv-export-start" type="date" value={exportStart} onChange={(e) => setExportStart(e.target.value)} />
+          </div>
+          <div>
+            <label htmlFor="csv-export-end" className="block text-sm font-medium text-secondary mb-1">To (optional)</label>
+            <Input id="csv-export-end" type="date" value={exportEnd} onChange={(e) => setExportEnd(e.target.value)} />
+          </div>
+          <Button onClick={handleExport}>Export CSV</Button>
+          <Button onClick={() => fileInputRef.current?.click()} className="bg-sky-700 hover:bg-sky-800">Import CSV</Button>
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            accept=".csv,text/csv"
+            className="hidden"
+            aria-hidden="true"
+          />
+        </div>
+
+        {pendingFile && preview && (
+          <div className="space-y-4 border-t border-sky-900 pt-4">
+            <h3 className="text-lg font-semibold text-secondary">
+              Import {CSV_COLLECTION_LABELS[collection]} from {pendingFile.name}
+            </h3>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {columns.map(column => (
+                <div key={column.key}>
+                  <label htmlFor={`csv-map-${column.key}`} className="block text-sm font-medium text-secondary mb-1">
+                    {column.label}{column.required ? ' *' : ''}
+                  </label>
+                  <select
+                    id={`csv-map-${column.key}`}
+                    value={mapping[column.key] ?? ''}
+                    onChange={(e) => handleMappingChange(column.key, e.target.value)}
+                    className={selectClassName}
+                  >
+                    <option value="">Not in file</option>
+                    {pendingFile.headers.map((header, index) => (
+                      <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-sm text-gray-400">
+              {validCount} of {pendingFile.rows.length} rows are ready to import.
+              {collection === 'sales' || collection === 'purchases' ? ' Imported rows are recorded as history and do not change stock levels.' : ''}
+            </p>
+
+            {previewRecords.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                  <thead>
+                    <tr className="border-b border-sky-900">
+                      {columns.map(column => (
+                        <th key={column.key} className="p-2 font-bold text-primary">{column.label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previewRecords.map((record, index) => (
+                      <tr key={index} className="border-b border-gray-800">
+                        {columns.map(column => (
+                          <td key={column.key} className="p-2">{formatCell(column.key, record[column.key])}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {validCount > PREVIEW_ROWS && (
+                  <p className="text-xs text-gray-500 mt-1">Showing the first {PREVIEW_ROWS} rows.</p>
+                )}
+              </div>
+            )}
+
+            {preview.errors.length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-red-400 mb-1">
+                  {preview.errors.length} rows have problems and will be skipped:
+                </p>
+                <ul className="text-xs text-red-300 space-y-1 max-h-40 overflow-y-auto">
+                  {preview.errors.map(error => (
+                    <li key={error.row}>Row {error.row}: {error.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleConfirmImport} className="w-full" disabled={validCount === 0}>
+                Import {validCount} Rows
+              </Button>
+              <Button onClick={handleCancelImport} className="bg-gray-600 hover:bg-gray-700">Cancel</Button>
+            </div>
+          </div>
+        )}
+      </div>
+      <p className="text-sm text-gray-400 mt-4">
+        Exported files use fixed column headers, so a sheet exported here can be edited and imported again.
+      </p>
+    </Card>
+  );
+};
+
+export default CsvManager;
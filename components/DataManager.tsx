@@ -1,5 +1,7 @@
-import React, { useRef } from 'react';
+import React, { useRef, useState, useMemo } from 'react';
 import { AppData } from '../types';
+import { MERGE_COLLECTION_LABELS, MergeChoice, MergeCollection, MergeConflict, MergePlan, planMerge, resolveMerge } from '../utils/merge';
+import { CollectionSummary, summarizeCollections, validateBackup } from '../utils/validation';
 import Card from './ui/Card';
 import Button from './ui/Button';
 
@@ -8,8 +10,44 @@ interface DataManagerProps {
   onImportData: (data: AppData) => void;
 }
 
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const MAX_LISTED_ERRORS = 50;
+
+const describeSpan = (summary: CollectionSummary) => {
+  if (!summary.first || !summary.last) return '';
+  const first = new Date(summary.first).toLocaleDateString();
+  const last = new Date(summary.last).toLocaleDateString();
+  return first === last ? first : `${first} – ${last}`;
+};
+
+const describeRecord = (conflict: MergeConflict) => {
+  const record = conflict.current;
+  const label = record.item || record.name || record.day || '';
+  const date = record.date ? new Date(record.date).toLocaleDateString() : '';
+  return [label, date].filter(Boolean).join(' · ') || record.id;
+};
+
 const DataManager: React.FC<DataManagerProps> = ({ appData, onImportData }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<{ name: string; data: AppData } | null>(null);
+  const [mergePlan, setMergePlan] = useState<MergePlan | null>(null);
+  const [mergeChoices, setMergeChoices] = useState<Record<string, MergeChoice>>({});
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const importPreview = useMemo(() => {
+    if (!pendingImport) {
+      return null;
+    }
+    const current = summarizeCollections(appData);
+    const incoming = summarizeCollections(pendingImport.data);
+    return (Object.keys(MERGE_COLLECTION_LABELS) as MergeCollection[])
+      .filter(collection => current[collection].count > 0 || incoming[collection].count > 0)
+      .map(collection => ({ collection, current: current[collection], incoming: incoming[collection] }));
+  }, [appData, pendingImport]);
 
   const handleExportData = () => {
     try {
@@ -47,22 +85,17 @@ const DataManager: React.FC<DataManagerProps> = ({ appData, onImportData }) => {
         if (typeof text !== 'string') {
           throw new Error("File could not be read properly.");
         }
-        const importedData = JSON.parse(text);
-
-        // Basic validation
-        if (!('inventory' in importedData && 'sales' in importedData && 'purchases' in importedData)) {
-            throw new Error("Invalid data structure in backup file.");
-        }
-
-        const isConfirmed = window.confirm(
-            "This will overwrite all current data in the application. Are you sure you want to proceed?"
-        );
-
-        if (isConfirmed) {
-            onImportData(importedData);
-            alert("Data imported successfully!");
+        const { data, errors } = validateBackup(JSON.parse(text));
+        if (!data) {
+          setPendingImport(null);
+          setImportErrors(errors);
+          return;
         }
 
+        setImportErrors([]);
+        setPendingImport({ name: file.name, data });
+        setMergePlan(null);
+        setMergeChoices({});
       } catch (error) {
         console.error("Error importing data:", error);
         alert(`Failed to import data. Please ensure you are uploading a valid backup file. Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -76,6 +109,55 @@ const DataManager: React.FC<DataManagerProps> = ({ appData, onImportData }) => {
     reader.readAsText(file);
   };
 
+  const handleCancelImport = () => {
+    setPendingImport(null);
+    setMergePlan(null);
+    setMergeChoices({});
+  };
+
+  const handleReplace = () => {
+    if (!pendingImport) {
+      return;
+    }
+    const isConfirmed = window.confirm(
+        "This will overwrite all current data in the application. Are you sure you want to proceed?"
+    );
+    if (isConfirmed) {
+        onImportData(pendingImport.data);
+        handleCancelImport();
+        alert("Data imported successfully!");
+    }
+  };
+
+  const handleStartMerge = () => {
+    if (pendingImport) {
+      setMergePlan(planMerge(appData, pendingImport.data));
+      setMergeChoices({});
+    }
+  };
+
+  const handleChooseAll = (choice: MergeChoice) => {
+    if (mergePlan) {
+      setMergeChoices(Object.fromEntries(mergePlan.conflicts.map(conflict => [conflict.key, choice])));
+    }
+  };
+
+  const handleApplyMerge = () => {
+    if (!mergePlan) {
+      return;
+    }
+    onImportData(resolveMerge(mergePlan, mergeChoices));
+    handleCancelImport();
+    alert("Backup merged successfully!");
+  };
+
+  const mergeRows = mergePlan
+    ? (Object.keys(MERGE_COLLECTION_LABELS) as MergeCollection[]).filter(collection => {
+        const counts = mergePlan.counts[collection];
+        return counts.added + counts.updated + counts.unchanged + counts.conflicts > 0;
+      })
+    : [];
+
   return (
     <Card>
       <h2 className="text-2xl font-bold text-primary mb-4">Data Management</h2>
@@ -95,8 +177,154 @@ const DataManager: React.FC<DataManagerProps> = ({ appData, onImportData }) => {
           aria-hidden="true"
         />
       </div>
+      {importErrors.length > 0 && (
+        <div className="mt-4 space-y-2 border-t border-sky-900 pt-4">
+          <div className="flex justify-between items-center">
+            <p className="font-medium text-red-400">The backup was not imported because it has {importErrors.length} problems:</p>
+            <button onClick={() => setImportErrors([])} className="text-red-400 hover:text-red-300 text-xl font-bold">✗</button>
+          </div>
+          <ul className="text-sm text-red-300 space-y-1 max-h-60 overflow-y-auto">
+            {importErrors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+          </ul>
+          {importErrors.length > MAX_LISTED_ERRORS && (
+            <p className="text-xs text-gray-400">…and {importErrors.length - MAX_LISTED_ERRORS} more.</p>
+          )}
+        </div>
+      )}
+
+      {pendingImport && !mergePlan && (
+        <div className="mt-4 space-y-3 border-t border-sky-900 pt-4">
+          <p className="text-secondary"><span className="font-semibold">{pendingImport.name}</span> is valid. Compare it with the current data:</p>
+          {importPreview && importPreview.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="border-b border-sky-900">
+                    <th className="p-2 font-bold text-primary">Records</th>
+                    <th className="p-2 font-bold text-primary">Current</th>
+                    <th className="p-2 font-bold text-primary">Incoming</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {importPreview.map(({ collection, current, incoming }) => (
+                    <tr key={collection} className="border-b border-gray-800">
+                      <td className="p-2 font-medium">{MERGE_COLLECTION_LABELS[collection]}</td>
+                      <td className="p-2">
+                        {current.count}
+                        <span className="block text-xs text-gray-400">{describeSpan(current)}</span>
+                      </td>
+                      <td className={`p-2 ${incoming.count < current.count ? 'text-yellow-400' : ''}`}>
+                        {incoming.count}
+                        <span className="block text-xs text-gray-400">{describeSpan(incoming)}</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-secondary">How should it be imported?</p>
+          <div className="space-y-2 sm:space-y-0 sm:flex sm:gap-2">
+            <Button onClick={handleStartMerge} className="w-full sm:w-auto">Merge With Current Data</Button>
+            <Button onClick={handleReplace} className="w-full sm:w-auto bg-red-600 hover:bg-red-700">Replace All Data</Button>
+            <Button onClick={handleCancelImport} className="w-full sm:w-auto bg-gray-600 hover:bg-gray-700">Cancel</Button>
+          </div>
+        </div>
+      )}
+
+      {mergePlan && (
+        <div className="mt-4 space-y-4 border-t border-sky-900 pt-4">
+          <h3 className="text-lg font-semibold text-secondary">Merge Summary</h3>
+          {mergeRows.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="border-b border-sky-900">
+                    <th className="p-2 font-bold text-primary">Records</th>
+                    <th className="p-2 text-right font-bold text-primary">Added</th>
+                    <th className="p-2 text-right font-bold text-primary">Updated</th>
+                    <th className="p-2 text-right font-bold text-primary">Unchanged</th>
+                    <th className="p-2 text-right font-bold text-primary">Conflicts</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {mergeRows.map(collection => {
+                    const counts = mergePlan.counts[collection];
+                    return (
+                      <tr key={collection} className="border-b border-gray-800">
+                        <td className="p-2 font-medium">{MERGE_COLLECTION_LABELS[collection]}</td>
+                        <td className="p-2 text-right text-green-400">{counts.added}</td>
+                        <td className="p-2 text-right">{counts.updated}</td>
+                        <td className="p-2 text-right text-gray-400">{counts.unchanged}</td>
+                        <td className={`p-2 text-right ${counts.conflicts > 0 ? 'text-red-400 font-semibold' : ''}`}>{counts.conflicts}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-gray-400">The backup has no records to merge.</p>
+          )}
+
+          {mergePlan.conflicts.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <p className="text-sm text-secondary">Choose which version to keep for each conflict.</p>
+                <div className="flex gap-3 text-sm">
+                  <button onClick={() => handleChooseAll('current')} className="text-primary hover:text-accent">Keep all current</button>
+                  <button onClick={() => handleChooseAll('incoming')} className="text-primary hover:text-accent">Use all incoming</button>
+                </div>
+              </div>
+              <ul className="space-y-2 max-h-80 overflow-y-auto pr-1">
+                {mergePlan.conflicts.map(conflict => {
+                  const choice = mergeChoices[conflict.key] || 'current';
+                  return (
+                    <li key={conflict.key} className="bg-gray-900 p-2 rounded-md text-sm">
+                      <p className="font-medium">{MERGE_COLLECTION_LABELS[conflict.collection]}: {describeRecord(conflict)}</p>
+                      <table className="w-full text-left text-xs mt-1">
+                        <tbody>
+                          {conflict.fields.map(field => (
+                            <tr key={field}>
+                              <td className="pr-2 text-gray-400">{field}</td>
+                              <td className={`pr-2 break-all ${choice === 'current' ? 'text-secondary' : 'text-gray-500'}`}>{formatValue(conflict.current[field])}</td>
+                              <td className={`break-all ${choice === 'incoming' ? 'text-secondary' : 'text-gray-500'}`}>{formatValue(conflict.incoming[field])}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <div className="flex space-x-1 bg-gray-800 p-1 rounded-lg mt-2">
+                        {(['current', 'incoming'] as MergeChoice[]).map(option => (
+                          <button
+                            key={option}
+                            onClick={() => setMergeChoices(prev => ({ ...prev, [conflict.key]: option }))}
+                            className={`flex-1 px-3 py-1 text-xs font-semibold rounded-md transition-colors duration-200 ${
+                              choice === option ? 'bg-accent text-white' : 'text-gray-400 hover:bg-gray-700'
+                            }`}
+                          >
+                            {option === 'current' ? 'Keep Current' : 'Use Incoming'}
+                          </button>
+                        ))}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-400">Settings are not changed by a merge.</p>
+          <div className="flex gap-2">
+            <Button onClick={handleApplyMerge} className="w-full">Apply Merge</Button>
+            <Button onClick={handleCancelImport} className="bg-gray-600 hover:bg-gray-700">Cancel</Button>
+          </div>
+        </div>
+      )}
+
       <p className="text-sm text-gray-400 mt-4">
-        Export your data to a file as a backup. You can import this file later to restore your application state. This is useful for moving data between devices.
+        Export your data to a file as a backup. You can import this file later to restore your application state, or merge a backup from another device into the data on this one.
       </p>
     </Card>
   );
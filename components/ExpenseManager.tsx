@@ -0,0 +1,196 @@
+
+import React, { useState, useMemo } from 'react';
+import { Expense, ExpenseCategory, ExpenseSchedule } from '../types';
+import { EXPENSE_CATEGORY_LABELS, EXPENSE_SCHEDULE_LABELS } from '../constants';
+import { isExpenseActive } from '../utils/expenses';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Input from './ui/Input';
+
+interface ExpenseManagerProps {
+  expenses: Expense[];
+  onAddExpense: (expense: Omit<Expense, 'id'>) => void;
+  onUpdateExpense: (expense: Expense) => void;
+  onDeleteExpense: (expenseId: string) => void;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const toDateInput = (date?: string) => (date ? new Date(date).toISOString().split('T')[0] : '');
+
+const selectClassName = 'bg-gray-900 border border-sky-900 text-secondary text-sm rounded-lg focus:ring-primary focus:border-primary block w-full p-2.5';
+
+const ExpenseManager: React.FC<ExpenseManagerProps> = ({ expenses, onAddExpense, onUpdateExpense, onDeleteExpense }) => {
+  const [editingExpenseId, setEditingExpenseId] = useState<string | null>(null);
+  const [expenseToDeleteId, setExpenseToDeleteId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [amount, setAmount] = useState('');
+  const [category, setCategory] = useState<ExpenseCategory>('utilities');
+  const [schedule, setSchedule] = useState<ExpenseSchedule>('once');
+  const [date, setDate] = useState(today());
+  const [effectiveTo, setEffectiveTo] = useState('');
+
+  const sortedExpenses = useMemo(
+    () => (expenses || []).slice().sort((a, b) => new Date(b.date || 0).getTime() - new Date(a.date || 0).getTime()),
+    [expenses]
+  );
+
+  const resetForm = () => {
+    setEditingExpenseId(null);
+    setName('');
+    setAmount('');
+    setCategory('utilities');
+    setSchedule('once');
+    setDate(today());
+    setEffectiveTo('');
+  };
+
+  const handleEditClick = (expense: Expense) => {
+    setEditingExpenseId(expense.id);
+    setExpenseToDeleteId(null);
+    setName(expense.name);
+    setAmount(String(expense.amount));
+    setCategory(expense.category);
+    setSchedule(expense.schedule);
+    setDate(toDateInput(expense.date));
+    setEffectiveTo(toDateInput(expense.effectiveTo));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const numAmount = parseFloat(amount);
+    if (!name.trim() || isNaN(numAmount) || numAmount <= 0 || !date) {
+      return;
+    }
+    const expense: Omit<Expense, 'id'> = {
+      name: name.trim(),
+      amount: numAmount,
+      category,
+      schedule,
+      date: new Date(date).toISOString(),
+      effectiveTo: schedule !== 'once' && effectiveTo ? new Date(effectiveTo).toISOString() : undefined,
+    };
+    if (editingExpenseId) {
+      onUpdateExpense({ ...expense, id: editingExpenseId });
+    } else {
+      onAddExpense(expense);
+    }
+    resetForm();
+  };
+
+  const handleConfirmDelete = (expenseId: string) => {
+    onDeleteExpense(expenseId);
+    setExpenseToDeleteId(null);
+    if (editingExpenseId === expenseId) {
+      resetForm();
+    }
+  };
+
+  const describeSchedule = (expense: Expense) => {
+    if (expense.schedule === 'once') {
+      return new Date(expense.date).toLocaleDateString();
+    }
+    const from = new Date(expense.date).toLocaleDateString();
+    const to = expense.effectiveTo ? new Date(expense.effectiveTo).toLocaleDateString() : 'ongoing';
+    return `${EXPENSE_SCHEDULE_LABELS[expense.schedule]} · ${from} – ${to}`;
+  };
+
+  return (
+    <Card>
+      <h2 className="text-2xl font-bold text-primary mb-4">Operational Costs</h2>
+
+      {sortedExpenses.length > 0 ? (
+        <ul className="space-y-2 mb-6 max-h-72 overflow-y-auto pr-1">
+          {sortedExpenses.map(expense => (
+            <li key={expense.id} className="bg-gray-900 p-2 rounded-md">
+              {expenseToDeleteId === expense.id ? (
+                <div className="flex justify-between items-center gap-2">
+                  <span className="font-medium text-red-400">Delete {expense.name}?</span>
+                  <div className="flex gap-2">
+                    <Button onClick={() => handleConfirmDelete(expense.id)} className="bg-red-600 hover:bg-red-700 text-xs py-1 px-2">Confirm</Button>
+                    <Button onClick={() => setExpenseToDeleteId(null)} className="bg-gray-600 hover:bg-gray-700 text-xs py-1 px-2">Cancel</Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex justify-between items-center gap-2">
+                  <div>
+                    <span>
+                      {expense.name}: <span className="font-semibold">₱{expense.amount.toFixed(2)}</span>
+                      {isExpenseActive(expense) && <span className="ml-2 text-xs text-green-400">active</span>}
+                    </span>
+                    <p className="text-xs text-gray-400">
+                      {EXPENSE_CATEGORY_LABELS[expense.category] || expense.category} · {describeSchedule(expense)}
+                    </p>
+                  </div>
+                  <div className="flex gap-3 flex-shrink-0">
+                    <button onClick={() => handleEditClick(expense)} className="text-primary hover:text-accent">✏️</button>
+                    <button onClick={() => setExpenseToDeleteId(expense.id)} className="text-red-500 hover:text-red-400">🗑️</button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-center text-gray-400 mb-6">No expenses recorded yet.</p>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <h3 className="text-lg font-semibold text-secondary">{editingExpenseId ? 'Edit Expense' : 'Add Expense'}</h3>
+        <Input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Expense Name (e.g., Electricity)"
+        />
+        <div className="flex gap-2">
+          <select value={category} onChange={(e) => setCategory(e.target.value as ExpenseCategory)} className={selectClassName} aria-label="Category">
+            {(Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[]).map(key => (
+              <option key={key} value={key}>{EXPENSE_CATEGORY_LABELS[key]}</option>
+            ))}
+          </select>
+          <select value={schedule} onChange={(e) => setSchedule(e.target.value as ExpenseSchedule)} className={selectClassName} aria-label="Schedule">
+            {(Object.keys(EXPENSE_SCHEDULE_LABELS) as ExpenseSchedule[]).map(key => (
+              <option key={key} value={key}>{EXPENSE_SCHEDULE_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+        <Input
+          type="number"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder={schedule === 'once' ? 'Amount' : `Amount per ${schedule === 'daily' ? 'day' : schedule === 'weekly' ? 'week' : 'month'}`}
+          min="0"
+          step="0.01"
+        />
+        <div className="flex gap-2">
+          <div className="w-full">
+            <label htmlFor="expense-date" className="block text-sm font-medium text-secondary mb-1">
+              {schedule === 'once' ? 'Date' : 'Effective From'}
+            </label>
+            <Input id="expense-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          {schedule !== 'once' && (
+            <div className="w-full">
+              <label htmlFor="expense-effective-to" className="block text-sm font-medium text-secondary mb-1">
+                Effective To (optional)
+              </label>
+              <Input id="expense-effective-to" type="date" value={effectiveTo} onChange={(e) => setEffectiveTo(e.target.value)} />
+            </div>
+          )}
+        </div>
+        {schedule !== 'once' && (
+          <p className="text-sm text-gray-400">To change a recurring amount such as rent, set an end date on the old entry and add a new one.</p>
+        )}
+        <div className="flex gap-2">
+          <Button type="submit" className="w-full">{editingExpenseId ? 'Save Expense' : 'Add Expense'}</Button>
+          {editingExpenseId && (
+            <Button type="button" onClick={resetForm} className="bg-gray-600 hover:bg-gray-700">Cancel</Button>
+          )}
+        </div>
+      </form>
+    </Card>
+  );
+};
+
+export default ExpenseManager;
@@ -0,0 +1,71 @@
+
+import React, { useState, useMemo } from 'react';
+import { InventoryItem } from '../types';
+import { EXPIRY_WARNING_DAYS } from '../constants';
+import { getExpiringLots } from '../utils/expiry';
+import Card from './ui/Card';
+import Button from './ui/Button';
+
+interface ExpiringSoonProps {
+  inventory: InventoryItem[];
+  onDiscardLot: (lot: InventoryItem) => void;
+}
+
+const formatQuantity = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const describeDaysLeft = (daysLeft: number) => {
+  if (daysLeft < 0) return `Expired ${-daysLeft}d ago`;
+  if (daysLeft === 0) return 'Expires today';
+  return daysLeft === 1 ? 'Expires tomorrow' : `Expires in ${daysLeft}d`;
+};
+
+const ExpiringSoon: React.FC<ExpiringSoonProps> = ({ inventory, onDiscardLot }) => {
+  const [lotToDiscardId, setLotToDiscardId] = useState<string | null>(null);
+
+  const expiringLots = useMemo(() => getExpiringLots(inventory || [], EXPIRY_WARNING_DAYS), [inventory]);
+
+  return (
+    <Card>
+      <h2 className="text-2xl font-bold text-primary mb-4">Expiring Soon</h2>
+      {expiringLots.length === 0 ? (
+        <p className="text-center text-gray-400">No lots expire in the next {EXPIRY_WARNING_DAYS} days.</p>
+      ) : (
+        <ul className="space-y-2 max-h-72 overflow-y-auto pr-1">
+          {expiringLots.map(({ lot, daysLeft }) => (
+            <li key={lot.id} className="bg-gray-900 p-2 rounded-md">
+              {lotToDiscardId === lot.id ? (
+                <div className="flex justify-between items-center gap-2">
+                  <span className="font-medium text-red-400">Record {formatQuantity(lot.quantity)} × {lot.item} as expired waste?</span>
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={() => { onDiscardLot(lot); setLotToDiscardId(null); }}
+                      className="bg-red-600 hover:bg-red-700 text-xs py-1 px-2"
+                    >
+                      Confirm
+                    </Button>
+                    <Button onClick={() => setLotToDiscardId(null)} className="bg-gray-600 hover:bg-gray-700 text-xs py-1 px-2">Cancel</Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex justify-between items-center gap-2">
+                  <div className="min-w-0">
+                    <p className="truncate">{lot.item} <span className="text-gray-400">× {formatQuantity(lot.quantity)}</span></p>
+                    <p className={`text-xs ${daysLeft < 0 ? 'text-red-400' : 'text-yellow-400'}`}>{describeDaysLeft(daysLeft)}</p>
+                  </div>
+                  <button
+                    onClick={() => setLotToDiscardId(lot.id)}
+                    className="text-sm text-primary hover:text-accent flex-shrink-0"
+                  >
+                    Discard
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
+
+export default ExpiringSoon;
@@ -1,6 +1,11 @@
 
 import React, { useState, useMemo } from 'react';
-import { InventoryItem, Expense } from '../types';
+import { CatalogItem, InventoryItem, CostingMethod, ReorderLevel } from '../types';
+import { groupInventoryByItem } from '../utils/inventory';
+import { getReorderLevel } from '../utils/reorder';
+import { findCatalogItem } from '../utils/catalog';
+import { getBaseUnit } from '../utils/units';
+import { getDaysUntilExpiry } from '../utils/expiry';
 import Card from './ui/Card';
 import Button from './ui/Button';
 import Input from './ui/Input';
@@ -8,27 +13,32 @@ import Input from './ui/Input';
 interface InventoryManagerProps {
   inventory: InventoryItem[];
   onAddInventory: (item: Omit<InventoryItem, 'id'>) => void;
-  onSetRent: (rent: number) => void;
-  currentRent: number;
-  onAddExpense: (expense: Expense) => void;
-  onDeleteExpense: (index: number) => void;
-  currentOtherExpenses: Expense[];
+  costingMethod: CostingMethod;
+  onSetCostingMethod: (method: CostingMethod) => void;
   onUpdateInventoryItem: (item: InventoryItem) => void;
   onDeleteInventoryItem: (itemId: string) => void;
+  catalog: CatalogItem[];
+  onSetReorderLevel: (item: string, level: ReorderLevel | null) => void;
   isFullScreen: boolean;
   onToggleFullScreen: () => void;
 }
 
+const formatQuantity = (value: number) => String(Math.round(value * 1000) / 1000);
+
+// Costs per gram or millilitre are fractions of a peso, so they keep more decimals.
+const formatUnitCost = (value: number) => `₱${value > 0 && value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+
+const getAgeInDays = (date: string) => Math.max(0, Math.floor((Date.now() - new Date(date).getTime()) / 86400000));
+
 const InventoryManager: React.FC<InventoryManagerProps> = ({ 
   inventory, 
   onAddInventory, 
-  onSetRent, 
-  currentRent, 
-  onAddExpense,
-  onDeleteExpense,
-  currentOtherExpenses,
+  costingMethod,
+  onSetCostingMethod,
   onUpdateInventoryItem,
   onDeleteInventoryItem,
+  catalog,
+  onSetReorderLevel,
   isFullScreen,
   onToggleFullScreen
 }) => {
@@ -36,47 +46,42 @@ const InventoryManager: React.FC<InventoryManagerProps> = ({
   const [quantity, setQuantity] = useState('');
   const [costPerUnit, setCostPerUnit] = useState('');
   const [dateAdded, setDateAdded] = useState(new Date().toISOString().split('T')[0]);
-  const [rent, setRent] = useState(currentRent.toString());
-  
-  const [expenseName, setExpenseName] = useState('');
-  const [expenseAmount, setExpenseAmount] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
 
   const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
   const [itemToDelete, setItemToDelete] = useState<string | null>(null);
 
-  const cleanInventory = useMemo(() => (inventory || []).filter(item => item && typeof item === 'object'), [inventory]);
+  const [expandedItems, setExpandedItems] = useState<string[]>([]);
+
+  const [levelsItem, setLevelsItem] = useState<string | null>(null);
+  const [levelsDraft, setLevelsDraft] = useState({ reorderPoint: '', parLevel: '' });
+
+  const groupedInventory = useMemo(() => groupInventoryByItem(inventory || []), [inventory]);
+
+  const itemUnit = getBaseUnit(catalog || [], itemName);
+
+  const toggleExpanded = (itemName: string) => {
+    setExpandedItems(prev => prev.includes(itemName) ? prev.filter(name => name !== itemName) : [...prev, itemName]);
+  };
 
   const handleAddSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (itemName && quantity && costPerUnit && dateAdded) {
       onAddInventory({
         item: itemName,
-        quantity: parseInt(quantity, 10),
+        quantity: parseFloat(quantity),
         costPerUnit: parseFloat(costPerUnit),
         date: new Date(dateAdded).toISOString(),
+        ...(expiryDate ? { expiryDate } : {}),
       });
       setItemName('');
       setQuantity('');
       setCostPerUnit('');
       setDateAdded(new Date().toISOString().split('T')[0]);
+      setExpiryDate('');
     }
   };
 
-  const handleRentSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    onSetRent(parseFloat(rent) || 0);
-  };
-  
-  const handleAddExpenseSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    const amount = parseFloat(expenseAmount);
-    if (expenseName && !isNaN(amount) && amount > 0) {
-      onAddExpense({ name: expenseName, amount });
-      setExpenseName('');
-      setExpenseAmount('');
-    }
-  };
-  
   const handleEditClick = (item: InventoryItem) => {
     setEditingItem({ ...item });
     setItemToDelete(null); // Ensure we're not in delete confirmation mode
@@ -87,7 +92,7 @@ const InventoryManager: React.FC<InventoryManagerProps> = ({
       // Ensure numeric fields are correctly typed before saving.
       const itemToSave: InventoryItem = {
         ...editingItem,
-        quantity: parseInt(String(editingItem.quantity), 10) || 0,
+        quantity: parseFloat(String(editingItem.quantity)) || 0,
         costPerUnit: parseFloat(String(editingItem.costPerUnit)) || 0,
       };
       onUpdateInventoryItem(itemToSave);
@@ -106,7 +111,7 @@ const InventoryManager: React.FC<InventoryManagerProps> = ({
       const { name, value } = e.target;
       setEditingItem({
         ...editingItem,
-        [name]: name === 'date' ? new Date(value).toISOString() : value,
+        [name]: name === 'date' ? new Date(value).toISOString() : name === 'expiryDate' ? value || undefined : value,
       });
     }
   };
@@ -117,6 +122,36 @@ const InventoryManager: React.FC<InventoryManagerProps> = ({
     setItemToDelete(null);
   };
 
+  const handleEditLevelsClick = (item: string) => {
+    const level = getReorderLevel(catalog, item);
+    setLevelsItem(item);
+    setLevelsDraft({ reorderPoint: level ? String(level.reorderPoint) : '', parLevel: level ? String(level.parLevel) : '' });
+  };
+
+  // Par has to be above the reorder point, otherwise restocking would not clear the alert.
+  const isLevelsDraftValid = () => {
+    const reorderPoint = parseFloat(levelsDraft.reorderPoint);
+    const parLevel = parseFloat(levelsDraft.parLevel);
+    return reorderPoint >= 0 && parLevel > reorderPoint;
+  };
+
+  const handleSaveLevelsClick = () => {
+    if (levelsItem && isLevelsDraftValid()) {
+      onSetReorderLevel(levelsItem, {
+        reorderPoint: parseFloat(levelsDraft.reorderPoint),
+        parLevel: parseFloat(levelsDraft.parLevel),
+      });
+      setLevelsItem(null);
+    }
+  };
+
+  const handleClearLevelsClick = () => {
+    if (levelsItem) {
+      onSetReorderLevel(levelsItem, null);
+      setLevelsItem(null);
+    }
+  };
+
 
   return (
     <div className="space-y-6">
@@ -129,78 +164,29 @@ const InventoryManager: React.FC<InventoryManagerProps> = ({
       {!isFullScreen && (
         <>
           <Card>
-            <h2 className="text-2xl font-bold text-primary mb-4">Operational Costs</h2>
-            <div className="space-y-6">
-              <form onSubmit={handleRentSubmit}>
-                <label htmlFor="rent" className="block text-sm font-medium text-secondary mb-1">
-                  Monthly Rent
-                </label>
-                <div className="flex items-center gap-2">
-                  <Input
-                    id="rent"
-                    type="number"
-                    value={rent}
-                    onChange={(e) => setRent(e.target.value)}
-                    placeholder="e.g., 30000"
-                  />
-                  <Button type="submit">Set</Button>
-                </div>
-              </form>
-              
-              <div>
-                <h3 className="text-lg font-semibold text-secondary mb-2">Other Monthly Expenses</h3>
-                {currentOtherExpenses.length > 0 && (
-                  <ul className="space-y-2 mb-4">
-                    {currentOtherExpenses.map((expense, index) => (
-                      <li key={index} className="flex justify-between items-center bg-gray-900 p-2 rounded-md">
-                        <span>{expense.name}: <span className="font-semibold">₱{expense.amount.toFixed(2)}</span></span>
-                        <button onClick={() => onDeleteExpense(index)} className="text-red-500 hover:text-red-400 font-bold text-lg">&times;</button>
-                      </li>
-                    ))}
-                  </ul>
-                )}
-                <form onSubmit={handleAddExpenseSubmit} className="space-y-3">
-                  <Input
-                    type="text"
-                    value={expenseName}
-                    onChange={(e) => setExpenseName(e.target.value)}
-                    placeholder="Expense Name (e.g., Utilities)"
-                  />
-                  <div className="flex items-center gap-2">
-                    <Input
-                      type="number"
-                      value={expenseAmount}
-                      onChange={(e) => setExpenseAmount(e.target.value)}
-                      placeholder="Amount"
-                      min="0"
-                    />
-                    <Button type="submit">Add</Button>
-                  </div>
-                </form>
-              </div>
-            </div>
-          </Card>
-
-          <Card>
-            <h2 className="text-2xl font-bold text-primary mb-4">Add New Inventory Item Type</h2>
+            <h2 className="text-2xl font-bold text-primary mb-4">Add Inventory Stock</h2>
             <form onSubmit={handleAddSubmit} className="space-y-4">
               <Input
                 type="text"
                 value={itemName}
                 onChange={(e) => setItemName(e.target.value)}
                 placeholder="Item Name (e.g., Mushroom, Olives)"
+                list="inventory-item-names"
               />
+              <datalist id="inventory-item-names">
+                {(catalog || []).filter(entry => !entry.archived).map(entry => <option key={entry.id} value={entry.name} />)}
+              </datalist>
               <Input
                 type="number"
                 value={quantity}
                 onChange={(e) => setQuantity(e.target.value)}
-                placeholder="Initial Quantity"
+                placeholder={itemUnit ? `Quantity (${itemUnit})` : 'Quantity'}
               />
               <Input
                 type="number"
                 value={costPerUnit}
                 onChange={(e) => setCostPerUnit(e.target.value)}
-                placeholder="Cost Per Unit"
+                placeholder={itemUnit ? `Cost Per ${itemUnit}` : 'Cost Per Unit'}
               />
               <div>
                 <label htmlFor="dateAdded" className="block text-sm font-medium text-secondary mb-1">
@@ -213,7 +199,19 @@ const InventoryManager: React.FC<InventoryManagerProps> = ({
                     onChange={(e) => setDateAdded(e.target.value)}
                 />
               </div>
-              <Button type="submit" className="w-full">Add Item Type</Button>
+              <div>
+                <label htmlFor="expiryDate" className="block text-sm font-medium text-secondary mb-1">
+                    Expiry Date (optional)
+                </label>
+                <Input
+                    id="expiryDate"
+                    type="date"
+                    value={expiryDate}
+                    onChange={(e) => setExpiryDate(e.target.value)}
+                />
+              </div>
+              <p className="text-sm text-gray-400">Adding an item that already exists records another lot of it.</p>
+              <Button type="submit" className="w-full">Add to Inventory</Button>
             </form>
           </Card>
         </>
@@ -233,6 +231,20 @@ const InventoryManager: React.FC<InventoryManagerProps> = ({
             </button>
           )}
         </div>
+        <div className="flex items-center gap-2 mb-4">
+          <label htmlFor="costing-method" className="text-sm font-medium text-secondary whitespace-nowrap">
+            Costing Method
+          </label>
+          <select
+            id="costing-method"
+            value={costingMethod}
+            onChange={(e) => onSetCostingMethod(e.target.value as CostingMethod)}
+            className="bg-gray-900 border border-sky-900 text-secondary text-sm rounded-lg focus:ring-primary focus:border-primary block w-full p-2"
+          >
+            <option value="fifo">FIFO (oldest lots used first)</option>
+            <option value="average">Weighted Average</option>
+          </select>
+        </div>
         <div className="overflow-x-auto">
           <table className="w-full text-left">
             <thead>
@@ -240,84 +252,201 @@ const InventoryManager: React.FC<InventoryManagerProps> = ({
                 <th className="p-2 font-bold text-primary">Item</th>
                 <th className="p-2 text-right font-bold text-primary">Quantity</th>
                 <th className="p-2 text-right font-bold text-primary">Cost/Unit</th>
+                <th className="p-2 text-right font-bold text-primary">Value</th>
                 <th className="p-2 text-right font-bold text-primary">Date Added</th>
                 <th className="p-2 text-center font-bold text-primary">Actions</th>
               </tr>
             </thead>
             <tbody>
-              {cleanInventory.length > 0 ? (
-                cleanInventory.slice().sort((a, b) => new Date(b.date || 0).getTime() - new Date(a.date || 0).getTime()).map((item) => (
-                  <tr key={item.id} className="border-b border-gray-800">
-                     {editingItem?.id === item.id ? (
-                       itemToDelete === item.id ? (
-                        <>
-                           <td className="p-2 font-medium text-red-400" colSpan={4}>Are you sure?</td>
-                           <td className="p-2 text-center">
-                               <div className="flex gap-2 justify-center items-center">
-                                   <Button onClick={() => handleConfirmDelete(item.id)} className="bg-red-600 hover:bg-red-700 text-xs py-1 px-2">Confirm</Button>
-                                   <Button onClick={() => setItemToDelete(null)} className="bg-gray-600 hover:bg-gray-700 text-xs py-1 px-2">Cancel</Button>
-                               </div>
-                           </td>
-                        </>
-                       ) : (
-                        <>
-                          <td className="p-2 font-medium">{item.item}</td>
-                          <td className="p-2 text-right">
-                            <Input
-                              type="number"
-                              name="quantity"
-                              value={editingItem.quantity}
-                              onChange={handleEditChange}
-                              className="py-1 text-sm bg-gray-800 text-right w-20"
-                            />
-                          </td>
-                          <td className="p-2 text-right">
-                            <Input
-                              type="number"
-                              name="costPerUnit"
-                              value={editingItem.costPerUnit}
-                              onChange={handleEditChange}
-                              className="py-1 text-sm bg-gray-800 text-right w-24"
-                            />
-                          </td>
-                          <td className="p-2 text-right">
-                            <Input
-                              type="date"
-                              name="date"
-                              value={editingItem.date ? new Date(editingItem.date).toISOString().split('T')[0] : ''}
-                              onChange={handleEditChange}
-                              className="py-1 text-sm bg-gray-800"
-                            />
-                          </td>
-                          <td className="p-2 text-center">
-                            <div className="flex gap-3 justify-center items-center">
-                              <button onClick={handleSaveClick} className="text-green-400 hover:text-green-300 text-xl font-bold">✓</button>
-                              <button onClick={() => setItemToDelete(item.id)} className="text-red-500 hover:text-red-400 text-xl">🗑️</button>
-                              <button onClick={handleCancelClick} className="text-red-400 hover:text-red-300 text-xl font-bold">✗</button>
-                            </div>
-                          </td>
-                        </>
-                       )
-                    ) : (
-                      <>
-                        <td className="p-2 font-medium">{item.item}</td>
-                        <td className="p-2 text-right">{item.quantity}</td>
-                        <td className="p-2 text-right">₱{(parseFloat(String(item.costPerUnit)) || 0).toFixed(2)}</td>
-                        <td className="p-2 text-right">
-                          {item.date ? new Date(item.date).toLocaleDateString() : 'N/A'}
+              {groupedInventory.length > 0 ? (
+                groupedInventory.map((group) => {
+                  const isExpanded = expandedItems.includes(group.item);
+                  const level = getReorderLevel(catalog, group.item);
+                  const unit = findCatalogItem(catalog, group.item)?.unit;
+                  const isLow = !!level && group.quantity <= level.reorderPoint;
+                  return (
+                    <React.Fragment key={group.item}>
+                      <tr className={`border-b border-gray-800 ${isLow ? 'bg-red-900/30' : 'bg-gray-900/50'}`}>
+                        <td className="p-2 font-semibold">
+                          <button
+                            onClick={() => toggleExpanded(group.item)}
+                            className="flex items-center gap-2 text-left hover:text-accent"
+                            aria-expanded={isExpanded}
+                          >
+                            <span className="text-primary w-3">{isExpanded ? '▾' : '▸'}</span>
+                            {group.item}
+                            {isLow && <span className="text-xs font-semibold text-red-400 border border-red-400 rounded px-1">Low</span>}
+                          </button>
+                        </td>
+                        <td
+                          className={`p-2 text-right font-semibold ${isLow ? 'text-red-400' : ''}`}
+                          title={level ? `Reorder at ${formatQuantity(level.reorderPoint)}, par ${formatQuantity(level.parLevel)}` : undefined}
+                        >
+                          {formatQuantity(group.quantity)}
+                          {unit && <span className="text-xs font-normal text-gray-400"> {unit}</span>}
                         </td>
-                        <td className="p-2 text-center">
-                            <div className="flex gap-3 justify-center">
-                                <button onClick={() => handleEditClick(item)} className="text-primary hover:text-accent">✏️</button>
-                            </div>
+                        <td className="p-2 text-right" title="Weighted average cost">
+                          {formatUnitCost(group.averageCost)}
+                          {unit && <span className="text-xs text-gray-400">/{unit}</span>}
                         </td>
-                      </>
-                    )}
-                  </tr>
-                ))
+                        <td className="p-2 text-right">₱{group.value.toFixed(2)}</td>
+                        <td className="p-2 text-right text-gray-400">{group.lots.length} {group.lots.length === 1 ? 'lot' : 'lots'}</td>
+                        <td className="p-2"></td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="border-b border-gray-800 text-sm">
+                          {levelsItem === group.item ? (
+                            <>
+                              <td className="p-2 pl-7 text-gray-400">Reorder</td>
+                              <td className="p-2 text-right">
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  value={levelsDraft.reorderPoint}
+                                  onChange={(e) => setLevelsDraft(prev => ({ ...prev, reorderPoint: e.target.value }))}
+                                  className="py-1 text-sm bg-gray-800 text-right w-20"
+                                  placeholder="At"
+                                  aria-label="Reorder point"
+                                />
+                              </td>
+                              <td className="p-2 text-right">
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  value={levelsDraft.parLevel}
+                                  onChange={(e) => setLevelsDraft(prev => ({ ...prev, parLevel: e.target.value }))}
+                                  className="py-1 text-sm bg-gray-800 text-right w-24"
+                                  placeholder="Par"
+                                  aria-label="Par level"
+                                />
+                              </td>
+                              <td className="p-2 text-gray-400" colSpan={2}>Par must be above the reorder point.</td>
+                              <td className="p-2 text-center">
+                                <div className="flex gap-3 justify-center items-center">
+                                  <button onClick={handleSaveLevelsClick} disabled={!isLevelsDraftValid()} className="text-green-400 hover:text-green-300 text-xl font-bold disabled:opacity-50">✓</button>
+                                  {level && <button onClick={handleClearLevelsClick} className="text-red-500 hover:text-red-400 text-xl">🗑️</button>}
+                                  <button onClick={() => setLevelsItem(null)} className="text-red-400 hover:text-red-300 text-xl font-bold">✗</button>
+                                </div>
+                              </td>
+                            </>
+                          ) : (
+                            <>
+                              <td className="p-2 pl-7 text-gray-400" colSpan={5}>
+                                {level
+                                  ? `Reorder at ${formatQuantity(level.reorderPoint)}, restock up to ${formatQuantity(level.parLevel)}`
+                                  : 'No reorder point set'}
+                              </td>
+                              <td className="p-2 text-center">
+                                <button onClick={() => handleEditLevelsClick(group.item)} className="text-primary hover:text-accent">✏️</button>
+                              </td>
+                            </>
+                          )}
+                        </tr>
+                      )}
+                      {isExpanded && group.lots.map((item) => (
+                        <tr key={item.id} className="border-b border-gray-800 text-sm">
+                          {editingItem?.id === item.id ? (
+                            itemToDelete === item.id ? (
+                              <>
+                                <td className="p-2 pl-7 font-medium text-red-400" colSpan={5}>
+                                  Are you sure? {item.purchaseId ? 'The purchase that created this lot will be deleted too.' : ''}
+                                </td>
+                                <td className="p-2 text-center">
+                                  <div className="flex gap-2 justify-center items-center">
+                                    <Button onClick={() => handleConfirmDelete(item.id)} className="bg-red-600 hover:bg-red-700 text-xs py-1 px-2">Confirm</Button>
+                                    <Button onClick={() => setItemToDelete(null)} className="bg-gray-600 hover:bg-gray-700 text-xs py-1 px-2">Cancel</Button>
+                                  </div>
+                                </td>
+                              </>
+                            ) : (
+                              <>
+                                <td className="p-2 pl-7 text-gray-400">Lot</td>
+                                <td className="p-2 text-right">
+                                  <Input
+                                    type="number"
+                                    name="quantity"
+                                    value={editingItem.quantity}
+                                    onChange={handleEditChange}
+                                    className="py-1 text-sm bg-gray-800 text-right w-20"
+                                  />
+                                </td>
+                                <td className="p-2 text-right">
+                                  <Input
+                                    type="number"
+                                    name="costPerUnit"
+                                    value={editingItem.costPerUnit}
+                                    onChange={handleEditChange}
+                                    className="py-1 text-sm bg-gray-800 text-right w-24"
+                                  />
+                                </td>
+                                <td className="p-2"></td>
+                                <td className="p-2 text-right">
+                                  <Input
+                                    type="date"
+                                    name="date"
+                                    value={editingItem.date ? new Date(editingItem.date).toISOString().split('T')[0] : ''}
+                                    onChange={handleEditChange}
+                                    className="py-1 text-sm bg-gray-800"
+                                  />
+                                  <Input
+                                    type="date"
+                                    name="expiryDate"
+                                    value={editingItem.expiryDate ?? ''}
+                                    onChange={handleEditChange}
+                                    className="py-1 text-sm bg-gray-800 mt-1"
+                                    title="Expiry date"
+                                    aria-label="Expiry date"
+                                  />
+                                </td>
+                                <td className="p-2 text-center">
+                                  <div className="flex gap-3 justify-center items-center">
+                                    <button onClick={handleSaveClick} className="text-green-400 hover:text-green-300 text-xl font-bold">✓</button>
+                                    <button onClick={() => setItemToDelete(item.id)} className="text-red-500 hover:text-red-400 text-xl">🗑️</button>
+                                    <button onClick={handleCancelClick} className="text-red-400 hover:text-red-300 text-xl font-bold">✗</button>
+                                  </div>
+                                </td>
+                              </>
+                            )
+                          ) : (
+                            <>
+                              <td className="p-2 pl-7 text-gray-400">Lot</td>
+                              <td className="p-2 text-right">
+                                {formatQuantity(parseFloat(String(item.quantity)) || 0)}
+                                {unit && <span className="text-xs text-gray-400"> {unit}</span>}
+                              </td>
+                              <td className="p-2 text-right">
+                                {formatUnitCost(parseFloat(String(item.costPerUnit)) || 0)}
+                                {unit && <span className="text-xs text-gray-400">/{unit}</span>}
+                              </td>
+                              <td className="p-2 text-right">₱{((parseFloat(String(item.quantity)) || 0) * (parseFloat(String(item.costPerUnit)) || 0)).toFixed(2)}</td>
+                              <td className="p-2 text-right">
+                                {item.date ? (
+                                  <>
+                                    {new Date(item.date).toLocaleDateString()}
+                                    <span className="text-gray-400 ml-1">({getAgeInDays(item.date)}d)</span>
+                                  </>
+                                ) : 'N/A'}
+                                {item.expiryDate && (
+                                  <span className={`block text-xs ${getDaysUntilExpiry(item.expiryDate) < 0 ? 'text-red-400' : 'text-gray-400'}`}>
+                                    Expires {new Date(`${item.expiryDate}T00:00:00`).toLocaleDateString()}
+                                  </span>
+                                )}
+                              </td>
+                              <td className="p-2 text-center">
+                                <div className="flex gap-3 justify-center">
+                                  <button onClick={() => handleEditClick(item)} className="text-primary hover:text-accent">✏️</button>
+                                </div>
+                              </td>
+                            </>
+                          )}
+                        </tr>
+                      ))}
+                    </React.Fragment>
+                  );
+                })
               ) : (
                 <tr>
-                  <td colSpan={5} className="p-4 text-center text-gray-400">
+                  <td colSpan={6} className="p-4 text-center text-gray-400">
                     No inventory items yet.
                   </td>
                 </tr>
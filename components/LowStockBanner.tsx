@@ -0,0 +1,37 @@
+import React from 'react';
+import { LowStockItem } from '../utils/reorder';
+import Button from './ui/Button';
+
+interface LowStockBannerProps {
+  items: LowStockItem[];
+  onGenerateShoppingList: () => void;
+}
+
+const formatQuantity = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const LowStockBanner: React.FC<LowStockBannerProps> = ({ items, onGenerateShoppingList }) => {
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border bg-yellow-900/40 border-yellow-700">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <p className="font-semibold text-yellow-300">
+          {items.length === 1 ? '1 ingredient is' : `${items.length} ingredients are`} at or below the reorder point.
+        </p>
+        <Button onClick={onGenerateShoppingList} className="text-sm py-1 px-3">Generate Shopping List</Button>
+      </div>
+      <ul className="text-sm text-yellow-200 mt-2 space-y-1">
+        {items.map(entry => (
+          <li key={entry.item}>
+            <span className="font-medium">{entry.item}</span>: {formatQuantity(entry.quantity)} left
+            <span className="text-yellow-400"> (reorder at {formatQuantity(entry.reorderPoint)}, par {formatQuantity(entry.parLevel)})</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default LowStockBanner;
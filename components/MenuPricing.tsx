@@ -0,0 +1,171 @@
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { CatalogItem, InventoryItem, MenuProduct } from '../types';
+import { CostSource, getProductPricing } from '../utils/menuPricing';
+import { getBaseUnit } from '../utils/units';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Input from './ui/Input';
+
+interface MenuPricingProps {
+  products: MenuProduct[];
+  inventory: InventoryItem[];
+  catalog: CatalogItem[];
+  targetMargin: number;
+  onSetTargetMargin: (targetMargin: number) => void;
+  onUpdateProduct: (product: MenuProduct) => void;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-PH', { style: 'currency', currency: 'PHP' }).format(value);
+};
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`);
+
+const formatQuantity = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const SOURCE_LABELS: Record<CostSource, string> = {
+  inventory: 'stock on hand',
+  catalog: 'catalog price',
+  none: 'no cost known',
+};
+
+const MenuPricing: React.FC<MenuPricingProps> = ({ products, inventory, catalog, targetMargin, onSetTargetMargin, onUpdateProduct }) => {
+  const [target, setTarget] = useState(String(targetMargin));
+  const [expandedProductId, setExpandedProductId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTarget(String(targetMargin));
+  }, [targetMargin]);
+
+  const pricing = useMemo(
+    () => getProductPricing(products || [], inventory || [], catalog || [], targetMargin),
+    [products, inventory, catalog, targetMargin]
+  );
+
+  const belowTargetCount = pricing.filter(row => row.isBelowTarget).length;
+
+  const handleTargetBlur = () => {
+    const value = parseFloat(target);
+    if (value >= 0 && value < 100 && value !== targetMargin) {
+      onSetTargetMargin(value);
+    } else {
+      setTarget(String(targetMargin));
+    }
+  };
+
+  return (
+    <Card>
+      <h2 className="text-2xl font-bold text-primary mb-4">Menu Pricing</h2>
+
+      <div className="mb-4">
+        <label htmlFor="target-margin" className="block text-sm text-gray-400 mb-1">
+          Target margin after ingredient costs (%)
+        </label>
+        <Input
+          id="target-margin"
+          type="number"
+          min="0"
+          max="99"
+          step="1"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          onBlur={handleTargetBlur}
+          onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          className="w-32"
+        />
+      </div>
+
+      {belowTargetCount > 0 && (
+        <p className="text-sm text-red-400 mb-4">
+          {belowTargetCount === 1 ? '1 product is' : `${belowTargetCount} products are`} below the target margin at current ingredient costs.
+        </p>
+      )}
+
+      {pricing.length === 0 ? (
+        <p className="text-center text-gray-400">Add menu products with recipes to see their food cost.</p>
+      ) : (
+        <ul className="space-y-2">
+          {pricing.map(row => {
+            const isExpanded = expandedProductId === row.product.id;
+            return (
+              <li key={row.product.id} className={`p-3 rounded-md ${row.isBelowTarget ? 'bg-red-900/30' : 'bg-gray-900'}`}>
+                <button
+                  onClick={() => setExpandedProductId(isExpanded ? null : row.product.id)}
+                  className="w-full text-left"
+                  aria-expanded={isExpanded}
+                >
+                  <div className="flex justify-between items-center gap-2">
+                    <span className="font-semibold">
+                      <span className="text-primary mr-2">{isExpanded ? '▾' : '▸'}</span>
+                      {row.product.name}
+                      {row.isBelowTarget && <span className="ml-2 text-xs font-semibold text-red-400 border border-red-400 rounded px-1">Below target</span>}
+                    </span>
+                    <span className="text-green-400">{formatCurrency(row.product.price)}</span>
+                  </div>
+                  {row.lines.length > 0 ? (
+                    <p className="text-xs text-gray-400 mt-1">
+                      Plate cost {formatCurrency(row.plateCost)} · Food cost {formatPercent(row.foodCostPercent)} ·{' '}
+                      <span className={row.isBelowTarget ? 'text-red-400' : ''}>Margin {formatPercent(row.margin)}</span>
+                    </p>
+                  ) : (
+                    <p className="text-xs text-gray-400 mt-1">No recipe, so no plate cost.</p>
+                  )}
+                </button>
+
+                {row.targetPrice !== null && row.targetPrice !== row.product.price && (
+                  <div className="flex justify-between items-center gap-2 mt-2 text-sm">
+                    <span className="text-gray-400">
+                      {formatCurrency(row.targetPrice)} reaches {targetMargin}%
+                    </span>
+                    {row.isBelowTarget && (
+                      <Button
+                        onClick={() => onUpdateProduct({ ...row.product, price: row.targetPrice! })}
+                        className="text-xs py-1 px-2"
+                      >
+                        Reprice
+                      </Button>
+                    )}
+                  </div>
+                )}
+                {row.hasMissingCosts && (
+                  <p className="text-xs text-yellow-400 mt-1">Some ingredients have no known cost, so the plate cost is understated.</p>
+                )}
+
+                {isExpanded && row.lines.length > 0 && (
+                  <table className="w-full text-left text-xs mt-2">
+                    <thead>
+                      <tr className="border-b border-sky-900">
+                        <th className="p-1 font-bold text-primary">Ingredient</th>
+                        <th className="p-1 text-right font-bold text-primary">Qty</th>
+                        <th className="p-1 text-right font-bold text-primary">Unit Cost</th>
+                        <th className="p-1 text-right font-bold text-primary">Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {row.lines.map((line, index) => {
+                        const unit = getBaseUnit(catalog || [], line.item);
+                        return (
+                          <tr key={`${line.item}-${index}`} className="border-b border-gray-800">
+                            <td className="p-1">{line.item}</td>
+                            <td className="p-1 text-right">{formatQuantity(line.quantity)}{unit && ` ${unit}`}</td>
+                            <td className="p-1 text-right" title={SOURCE_LABELS[line.source]}>
+                              {line.source === 'none' ? '—' : `₱${line.unitCost < 1 ? line.unitCost.toFixed(4) : line.unitCost.toFixed(2)}`}
+                            </td>
+                            <td className="p-1 text-right">{formatCurrency(line.cost)}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Card>
+  );
+};
+
+export default MenuPricing;
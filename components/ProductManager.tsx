@@ -0,0 +1,201 @@
+
+import React, { useState, useMemo } from 'react';
+import { CatalogItem, MenuProduct, RecipeIngredient } from '../types';
+import { isSameItem } from '../utils/inventory';
+import { getBaseUnit } from '../utils/units';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Input from './ui/Input';
+
+interface ProductManagerProps {
+  products: MenuProduct[];
+  catalog: CatalogItem[];
+  onAddProduct: (product: Omit<MenuProduct, 'id'>) => void;
+  onUpdateProduct: (product: MenuProduct) => void;
+  onDeleteProduct: (productId: string) => void;
+}
+
+interface RecipeRow {
+  item: string;
+  quantity: string;
+}
+
+const emptyRow = (): RecipeRow => ({ item: '', quantity: '' });
+
+const ProductManager: React.FC<ProductManagerProps> = ({ products, catalog, onAddProduct, onUpdateProduct, onDeleteProduct }) => {
+  const [editingProductId, setEditingProductId] = useState<string | null>(null);
+  const [productToDeleteId, setProductToDeleteId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [price, setPrice] = useState('');
+  const [recipeRows, setRecipeRows] = useState<RecipeRow[]>([emptyRow()]);
+
+  // Active catalog ingredients in catalog order, plus any archived ones the recipe being edited still uses.
+  const ingredientNames = useMemo(() => {
+    const names: string[] = [];
+    [...(catalog || []).filter(entry => entry && !entry.archived).map(entry => entry.name), ...recipeRows.map(row => row.item)].forEach(itemName => {
+      if (itemName && !names.some(existing => isSameItem(existing, itemName))) {
+        names.push(itemName);
+      }
+    });
+    return names;
+  }, [catalog, recipeRows]);
+
+  const resetForm = () => {
+    setEditingProductId(null);
+    setName('');
+    setPrice('');
+    setRecipeRows([emptyRow()]);
+  };
+
+  const handleEditClick = (product: MenuProduct) => {
+    setEditingProductId(product.id);
+    setProductToDeleteId(null);
+    setName(product.name);
+    setPrice(String(product.price));
+    setRecipeRows(product.recipe.length > 0
+      ? product.recipe.map(r => ({ item: r.item, quantity: String(r.quantity) }))
+      : [emptyRow()]);
+  };
+
+  const handleRowChange = (index: number, field: keyof RecipeRow, value: string) => {
+    setRecipeRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleRemoveRow = (index: number) => {
+    setRecipeRows(prev => (prev.length > 1 ? prev.filter((_, i) => i !== index) : [emptyRow()]));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const numPrice = parseFloat(price);
+    if (!name.trim() || isNaN(numPrice) || numPrice < 0) {
+      return;
+    }
+    const recipe: RecipeIngredient[] = recipeRows
+      .map(row => ({ item: row.item, quantity: parseFloat(row.quantity) }))
+      .filter(row => row.item && !isNaN(row.quantity) && row.quantity > 0);
+
+    if (editingProductId) {
+      onUpdateProduct({ id: editingProductId, name: name.trim(), price: numPrice, recipe });
+    } else {
+      onAddProduct({ name: name.trim(), price: numPrice, recipe });
+    }
+    resetForm();
+  };
+
+  const handleConfirmDelete = (productId: string) => {
+    onDeleteProduct(productId);
+    setProductToDeleteId(null);
+    if (editingProductId === productId) {
+      resetForm();
+    }
+  };
+
+  return (
+    <Card>
+      <h2 className="text-2xl font-bold text-primary mb-4">Menu Products</h2>
+
+      {products.length > 0 ? (
+        <ul className="space-y-2 mb-6">
+          {products.map(product => (
+            <li key={product.id} className="bg-gray-900 p-3 rounded-md">
+              {productToDeleteId === product.id ? (
+                <div className="flex justify-between items-center gap-2">
+                  <span className="font-medium text-red-400">Delete {product.name}?</span>
+                  <div className="flex gap-2">
+                    <Button onClick={() => handleConfirmDelete(product.id)} className="bg-red-600 hover:bg-red-700 text-xs py-1 px-2">Confirm</Button>
+                    <Button onClick={() => setProductToDeleteId(null)} className="bg-gray-600 hover:bg-gray-700 text-xs py-1 px-2">Cancel</Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="flex justify-between items-center">
+                    <span className="font-semibold">{product.name} <span className="text-green-400">₱{product.price.toFixed(2)}</span></span>
+                    <div className="flex gap-3">
+                      <button onClick={() => handleEditClick(product)} className="text-primary hover:text-accent">✏️</button>
+                      <button onClick={() => setProductToDeleteId(product.id)} className="text-red-500 hover:text-red-400">🗑️</button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-400 mt-1">
+                    {product.recipe.length > 0
+                      ? product.recipe.map(r => `${r.quantity} × ${r.item}`).join(', ')
+                      : 'No recipe — sales will not deduct stock.'}
+                  </p>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-center text-gray-400 mb-6">No menu products yet.</p>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <h3 className="text-lg font-semibold text-secondary">{editingProductId ? 'Edit Product' : 'Add Product'}</h3>
+        <Input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Product Name (e.g., Ham Pizza)"
+        />
+        <Input
+          type="number"
+          value={price}
+          onChange={(e) => setPrice(e.target.value)}
+          placeholder="Selling Price"
+          min="0"
+          step="0.01"
+        />
+        <div>
+          <label className="block text-sm font-medium text-secondary mb-1">
+            Recipe (quantity per serving, in the ingredient's base unit)
+          </label>
+          <div className="space-y-2">
+            {recipeRows.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <select
+                  value={row.item}
+                  onChange={(e) => handleRowChange(index, 'item', e.target.value)}
+                  className="bg-gray-900 border border-sky-900 text-secondary text-sm rounded-lg focus:ring-primary focus:border-primary block w-full p-2.5"
+                  aria-label="Ingredient"
+                >
+                  <option value="">Select ingredient</option>
+                  {ingredientNames.map(itemName => (
+                    <option key={itemName} value={itemName}>{itemName}</option>
+                  ))}
+                </select>
+                <Input
+                  type="number"
+                  value={row.quantity}
+                  onChange={(e) => handleRowChange(index, 'quantity', e.target.value)}
+                  placeholder="Qty"
+                  className="w-24 text-right"
+                  min="0"
+                  step="any"
+                  aria-label="Quantity per serving"
+                />
+                <span className="text-gray-400 text-sm w-12 truncate">{getBaseUnit(catalog || [], row.item)}</span>
+                <button type="button" onClick={() => handleRemoveRow(index)} className="text-red-500 hover:text-red-400 font-bold text-lg">&times;</button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setRecipeRows(prev => [...prev, emptyRow()])}
+            className="text-sm text-primary hover:text-accent mt-2"
+          >
+            + Add ingredient
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <Button type="submit" className="w-full">{editingProductId ? 'Save Product' : 'Add Product'}</Button>
+          {editingProductId && (
+            <Button type="button" onClick={resetForm} className="bg-gray-600 hover:bg-gray-700">Cancel</Button>
+          )}
+        </div>
+      </form>
+    </Card>
+  );
+};
+
+export default ProductManager;
@@ -0,0 +1,224 @@
+
+import React, { useState, useMemo } from 'react';
+import { InventoryItem, Purchase, Supplier } from '../types';
+import { getSupplierName } from '../utils/suppliers';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Input from './ui/Input';
+
+interface PurchaseHistoryProps {
+  purchases: Purchase[];
+  inventory: InventoryItem[];
+  suppliers: Supplier[];
+  onUpdatePurchase: (purchase: Purchase) => void;
+  onDeletePurchase: (purchaseId: string) => void;
+}
+
+const PurchaseHistory: React.FC<PurchaseHistoryProps> = ({ purchases, inventory, suppliers, onUpdatePurchase, onDeletePurchase }) => {
+  const [editingPurchaseId, setEditingPurchaseId] = useState<string | null>(null);
+  const [editedPurchase, setEditedPurchase] = useState<Purchase | null>(null);
+  const [purchaseToDeleteId, setPurchaseToDeleteId] = useState<string | null>(null);
+  const [quantityError, setQuantityError] = useState<string | null>(null);
+
+  const cleanPurchases = useMemo(() => (purchases || []).filter(item => item && typeof item === 'object'), [purchases]);
+
+  const handleEditClick = (purchase: Purchase) => {
+    setEditingPurchaseId(purchase.id);
+    setEditedPurchase({ ...purchase });
+    setPurchaseToDeleteId(null);
+    setQuantityError(null);
+  };
+
+  // What sales, waste and stocktakes have already taken out of the lot a purchase created.
+  const getUsedQuantity = (purchase: Purchase) => {
+    const lot = (inventory || []).find(item => item && item.id === purchase.lotId);
+    if (!lot) return 0;
+    const used = (parseFloat(String(purchase.quantity)) || 0) - (parseFloat(String(lot.quantity)) || 0);
+    return Math.max(0, Math.round(used * 1e6) / 1e6);
+  };
+
+  const handleSaveClick = () => {
+    if (editedPurchase && editingPurchaseId !== null) {
+      const purchaseToSave: Purchase = {
+        ...editedPurchase,
+        item: editedPurchase.item.trim() || editedPurchase.item,
+        quantity: parseFloat(String(editedPurchase.quantity)) || 0,
+        cost: parseFloat(String(editedPurchase.cost)) || 0,
+      };
+      const originalPurchase = cleanPurchases.find(purchase => purchase.id === editingPurchaseId);
+      const used = originalPurchase ? getUsedQuantity(originalPurchase) : 0;
+      // The lot cannot give back stock that has already been used, so the purchase cannot shrink below it.
+      if (purchaseToSave.quantity < used) {
+        setQuantityError(`${used} of this purchase has already been used, so the quantity cannot be less than that.`);
+        return;
+      }
+      onUpdatePurchase(purchaseToSave);
+      setEditingPurchaseId(null);
+      setEditedPurchase(null);
+    }
+  };
+
+  const handleCancelClick = () => {
+    setEditingPurchaseId(null);
+    setEditedPurchase(null);
+    setPurchaseToDeleteId(null);
+    setQuantityError(null);
+  };
+
+  const handleEditChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    if (editedPurchase) {
+      const { name, value } = e.target;
+      if (name === 'quantity') setQuantityError(null);
+      setEditedPurchase({
+        ...editedPurchase,
+        [name]: name === 'date' ? new Date(value).toISOString() : name === 'supplierId' ? value || undefined : value,
+      });
+    }
+  };
+
+  const handleConfirmDelete = (purchaseId: string) => {
+    onDeletePurchase(purchaseId);
+    setEditingPurchaseId(null);
+    setEditedPurchase(null);
+    setPurchaseToDeleteId(null);
+  };
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold text-primary">Purchase History</h2>
+      </div>
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="border-b border-sky-900">
+              <th className="p-2 font-bold text-primary">Date</th>
+              <th className="p-2 font-bold text-primary">Item</th>
+              <th className="p-2 text-right font-bold text-primary">Qty</th>
+              <th className="p-2 text-right font-bold text-primary">Total Cost</th>
+              <th className="p-2 text-center font-bold text-primary">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {cleanPurchases.length > 0 ? (
+              cleanPurchases.slice().sort((a, b) => new Date(b.date || 0).getTime() - new Date(a.date || 0).getTime()).map((purchase) => (
+                <tr key={purchase.id} className="border-b border-gray-800">
+                  {editingPurchaseId === purchase.id ? (
+                    purchaseToDeleteId === purchase.id ? (
+                      <>
+                        <td className="p-2 font-medium text-red-400" colSpan={4}>
+                          Are you sure? {purchase.lotId ? 'Its inventory lot will be removed too.' : ''}
+                        </td>
+                        <td className="p-2 text-center">
+                          <div className="flex gap-2 justify-center items-center">
+                            <Button onClick={() => handleConfirmDelete(purchase.id)} className="bg-red-600 hover:bg-red-700 text-xs py-1 px-2">Confirm</Button>
+                            <Button onClick={() => setPurchaseToDeleteId(null)} className="bg-gray-600 hover:bg-gray-700 text-xs py-1 px-2">Cancel</Button>
+                          </div>
+                        </td>
+                      </>
+                    ) : (
+                      <>
+                        <td className="p-2">
+                          <Input
+                            type="date"
+                            name="date"
+                            value={editedPurchase?.date ? new Date(editedPurchase.date).toISOString().split('T')[0] : ''}
+                            onChange={handleEditChange}
+                            className="py-1 text-sm bg-gray-800"
+                          />
+                        </td>
+                        <td className="p-2">
+                          <Input
+                            type="text"
+                            name="item"
+                            value={editedPurchase?.item ?? ''}
+                            onChange={handleEditChange}
+                            className="py-1 text-sm bg-gray-800"
+                          />
+                          {suppliers.length > 0 && (
+                            <select
+                              name="supplierId"
+                              value={editedPurchase?.supplierId ?? ''}
+                              onChange={handleEditChange}
+                              className="bg-gray-800 border border-sky-900 text-secondary text-sm rounded-lg focus:ring-primary focus:border-primary block w-full p-1 mt-1"
+                              aria-label="Supplier"
+                            >
+                              <option value="">No supplier</option>
+                              {suppliers.map(supplier => (
+                                <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                              ))}
+                            </select>
+                          )}
+                        </td>
+                        <td className="p-2 text-right">
+                          <Input
+                            type="number"
+                            name="quantity"
+                            value={editedPurchase?.quantity ?? ''}
+                            onChange={handleEditChange}
+                            className="py-1 text-sm bg-gray-800 text-right w-20"
+                          />
+                          {quantityError && <p className="text-xs text-red-400 mt-1 text-left">{quantityError}</p>}
+                        </td>
+                        <td className="p-2 text-right">
+                          <Input
+                            type="number"
+                            name="cost"
+                            value={editedPurchase?.cost ?? ''}
+                            onChange={handleEditChange}
+                            className="py-1 text-sm bg-gray-800 text-right w-28"
+                          />
+                        </td>
+                        <td className="p-2 text-center">
+                          <div className="flex gap-3 justify-center items-center">
+                            <button onClick={handleSaveClick} className="text-green-400 hover:text-green-300 text-xl font-bold">✓</button>
+                            <button onClick={() => setPurchaseToDeleteId(purchase.id)} className="text-red-500 hover:text-red-400 text-xl">🗑️</button>
+                            <button onClick={handleCancelClick} className="text-red-400 hover:text-red-300 text-xl font-bold">✗</button>
+                          </div>
+                        </td>
+                      </>
+                    )
+                  ) : (
+                    <>
+                      <td className="p-2 font-medium">
+                        {purchase.date ? new Date(purchase.date).toLocaleDateString() : 'N/A'}
+                      </td>
+                      <td className="p-2">
+                        {purchase.item}
+                        {purchase.supplierId && (
+                          <span className="block text-xs text-gray-400">{getSupplierName(purchase.supplierId, suppliers)}</span>
+                        )}
+                      </td>
+                      <td className="p-2 text-right">
+                        {purchase.quantity}
+                        {purchase.purchaseUnit && purchase.purchaseUnit.factor > 0 && (
+                          <span className="block text-xs text-gray-400">
+                            {Math.round((purchase.quantity / purchase.purchaseUnit.factor) * 1000) / 1000} {purchase.purchaseUnit.name}
+                          </span>
+                        )}
+                      </td>
+                      <td className="p-2 text-right">₱{(parseFloat(String(purchase.cost)) || 0).toFixed(2)}</td>
+                      <td className="p-2 text-center">
+                        <div className="flex gap-3 justify-center">
+                          <button onClick={() => handleEditClick(purchase)} className="text-primary hover:text-accent">✏️</button>
+                        </div>
+                      </td>
+                    </>
+                  )}
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={5} className="p-4 text-center text-gray-400">
+                  No purchases recorded yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+};
+
+export default PurchaseHistory;
@@ -1,20 +1,67 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
-import { AppData, Purchase, Sale } from '../types';
+import { AppData, Analysis, ExpenseCategory, WasteReason } from '../types';
+import { EXPENSE_CATEGORY_LABELS, WASTE_REASON_LABELS } from '../constants';
+import { analyzePeriod } from '../utils/analysis';
+import { getBaseUnit } from '../utils/units';
+import { ComparisonMode, DateRange, Timeframe, addDays, formatRange, getComparisonRange, getPeriodRange, shiftAnchor, startOfDay, trimComparisonRange } from '../utils/periods';
 import Card from './ui/Card';
 import Button from './ui/Button';
+import Input from './ui/Input';
 
 interface ReportProps {
   data: AppData;
 }
 
-type Timeframe = 'all' | 'monthly' | 'weekly' | 'daily';
+const toDateInput = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-PH', { style: 'currency', currency: 'PHP' }).format(value);
+};
+
+const formatQuantity = (value: number) => String(Math.round(value * 1000) / 1000);
+
+// Costs per gram or millilitre are fractions of a peso, so they keep more decimals.
+const formatUnitCost = (value: number) => `₱${value > 0 && value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+
+const comparisonLabels: Record<ComparisonMode, string> = {
+  none: 'No Comparison',
+  previous: 'vs Previous Period',
+  lastYear: 'vs Last Year',
+};
+
+interface DeltaProps {
+  current: number;
+  previous: number;
+}
+
+// Change against the comparison period. Percentages are relative to the size of the previous value.
+const Delta: React.FC<DeltaProps> = ({ current, previous }) => {
+  const change = current - previous;
+  const percent = previous !== 0 ? (change / Math.abs(previous)) * 100 : null;
+  const color = change > 0 ? 'text-green-400' : change < 0 ? 'text-red-400' : 'text-gray-400';
+  return (
+    <p className={`text-xs mt-1 ${color}`}>
+      {change >= 0 ? '+' : '-'}{formatCurrency(Math.abs(change))}
+      {percent !== null && ` (${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%)`}
+      <span className="text-gray-500"> vs {formatCurrency(previous)}</span>
+    </p>
+  );
+};
 
 const Report: React.FC<ReportProps> = ({ data }) => {
   const [timeframe, setTimeframe] = useState<Timeframe>('all');
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('none');
+  const [anchorDate, setAnchorDate] = useState(() => new Date());
+  const [customStart, setCustomStart] = useState(() => toDateInput(addDays(new Date(), -6)));
+  const [customEnd, setCustomEnd] = useState(() => toDateInput(new Date()));
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
   const [currentTime, setCurrentTime] = useState(new Date());
   const reportRef = useRef<HTMLDivElement>(null);
@@ -29,136 +76,82 @@ const Report: React.FC<ReportProps> = ({ data }) => {
     };
   }, []);
 
-  const { analysis, chartData, chartTitle } = useMemo(() => {
-    const now = currentTime;
-    const isValidObject = (item: unknown): item is object => item && typeof item === 'object';
-    
-    const getTodayStart = () => new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
-    
-    const getWeekStart = (date: Date) => {
-        const d = new Date(date);
-        const day = d.getDay();
-        const diff = d.getDate() - day + (day === 0 ? -6 : 1); // Monday as start of week
-        return new Date(d.setDate(diff)).setHours(0, 0, 0, 0);
-    };
-
-    const getMonthStart = () => new Date(now.getFullYear(), now.getMonth(), 1).getTime();
-
-    const filterByTimeframe = (transaction: { date?: string }) => {
-        if (!transaction?.date) {
-            return timeframe === 'all';
-        }
-        const transactionDate = new Date(transaction.date);
-        switch (timeframe) {
-            case 'daily':
-                return transactionDate.getTime() >= getTodayStart();
-            case 'weekly':
-                return transactionDate.getTime() >= getWeekStart(now);
-            case 'monthly':
-                return transactionDate.getTime() >= getMonthStart();
-            case 'all':
-            default:
-                return true;
-        }
-    };
-
-    const filteredPurchases = (data.purchases || []).filter(isValidObject).filter(filterByTimeframe);
-    const filteredSales = (data.sales || []).filter(isValidObject).filter(filterByTimeframe);
+  // The selected period as a date range; null means all time.
+  const selectedRange: DateRange | null = useMemo(() => {
+    if (timeframe === 'all') return null;
+    if (timeframe === 'custom') {
+      const start = startOfDay(new Date(`${customStart}T00:00:00`));
+      const lastDay = startOfDay(new Date(`${customEnd}T00:00:00`));
+      if (isNaN(start.getTime()) || isNaN(lastDay.getTime())) return null;
+      return lastDay < start ? { start: lastDay, end: addDays(start, 1) } : { start, end: addDays(lastDay, 1) };
+    }
+    return getPeriodRange(timeframe, anchorDate);
+  }, [timeframe, anchorDate, customStart, customEnd]);
 
-    let rent = data.rent;
-    const totalOtherExpenses = (data.otherExpenses || []).reduce((acc, expense) => acc + expense.amount, 0);
-    let otherExpenses = totalOtherExpenses;
+  const { analysis, comparison, chartData, chartTitle, productBreakdown, ingredientUsage, range } = useMemo(() => {
+    const report = analyzePeriod(data, selectedRange, currentTime);
+    const finalAnalysis = report.analysis;
 
-    if (timeframe === 'daily') {
-        rent /= 30;
-        otherExpenses /= 30;
-    } else if (timeframe === 'weekly') {
-        rent /= 4;
-        otherExpenses /= 4;
-    }
+    // A period still running is compared with the same number of days of the other period.
+    const fullComparisonRange = getComparisonRange(timeframe, report.range, comparisonMode);
+    const comparisonRange = fullComparisonRange && trimComparisonRange(fullComparisonRange, report.range, currentTime);
+    const comparisonReport = comparisonRange ? analyzePeriod(data, comparisonRange, currentTime) : null;
 
-    const totalPurchases = filteredPurchases.reduce((acc, p) => acc + p.cost, 0);
-    const totalSales = filteredSales.reduce((acc, s) => acc + s.revenue, 0);
-    
-    const inventoryValue = (data.inventory || []).filter(isValidObject).reduce((acc, item) => {
-      const quantity = parseFloat(String(item.quantity)) || 0;
-      const costPerUnit = parseFloat(String(item.costPerUnit)) || 0;
-      return acc + (quantity * costPerUnit);
-    }, 0);
-    
-    const cogs = totalPurchases;
-    const grossProfit = totalSales - cogs;
-    const netProfit = grossProfit - rent - otherExpenses;
-
-    const finalAnalysis = { totalPurchases, totalSales, inventoryValue, rent, otherExpenses, cogs, grossProfit, netProfit };
-
-    let finalChartData = [];
+    let finalChartData: Record<string, string | number>[] = [];
     let finalChartTitle = 'Overall Summary';
 
-    if (timeframe === 'weekly' || timeframe === 'monthly') {
-        const dailyData: { [key: string]: { Sales: number; Purchases: number } } = {};
-
-        const processTransactions = (transactions: (Purchase[] | Sale[]), type: 'Sales' | 'Purchases') => {
-            transactions.forEach(t => {
-                if(t.date) {
-                    const dateKey = new Date(t.date).toISOString().split('T')[0];
-                    if (!dailyData[dateKey]) {
-                        dailyData[dateKey] = { Sales: 0, Purchases: 0 };
-                    }
-                    if (type === 'Sales') {
-                        dailyData[dateKey].Sales += (t as Sale).revenue;
-                    } else {
-                        dailyData[dateKey].Purchases += (t as Purchase).cost;
-                    }
-                }
-            });
-        };
-
-        processTransactions(filteredSales, 'Sales');
-        processTransactions(filteredPurchases, 'Purchases');
-
-        const sortedDays = Object.keys(dailyData).sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
-        
-        if (timeframe === 'weekly') {
-            finalChartTitle = 'Weekly Progress';
-            const weekDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-            finalChartData = sortedDays.map(dateKey => {
-                const date = new Date(dateKey);
-                const dayData = dailyData[dateKey];
-                return {
-                    name: weekDays[date.getUTCDay()],
-                    Sales: dayData.Sales,
-                    Purchases: dayData.Purchases,
-                    'Gross Profit': dayData.Sales - dayData.Purchases,
-                };
-            });
-        } else { // monthly
-            finalChartTitle = 'Monthly Progress';
-            finalChartData = sortedDays.map(dateKey => {
-                const date = new Date(dateKey);
-                const dayData = dailyData[dateKey];
-                return {
-                    name: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }),
-                    Sales: dayData.Sales,
-                    Purchases: dayData.Purchases,
-                    'Gross Profit': dayData.Sales - dayData.Purchases,
-                };
-            });
-        }
-    } else { // 'all' or 'daily'
-        if (timeframe === 'daily') finalChartTitle = "Today's Summary";
+    if (report.bucketSize !== 'none') {
+        finalChartTitle = report.bucketSize === 'month' ? 'Monthly Progress' : 'Daily Progress';
+        // Comparison buckets are lined up by position: day 1 against day 1, and so on.
+        const bucketCount = Math.max(report.buckets.length, comparisonReport?.buckets.length || 0);
+        finalChartData = Array.from({ length: bucketCount }, (_, index) => {
+            const bucket = report.buckets[index];
+            const previous = comparisonReport?.buckets[index];
+            return {
+                name: bucket?.label || previous?.label || `${index + 1}`,
+                ...(bucket ? { Sales: bucket.sales, Purchases: bucket.purchases, 'Gross Profit': bucket.grossProfit } : {}),
+                ...(previous ? { 'Previous Sales': previous.sales, 'Previous Gross Profit': previous.grossProfit } : {}),
+            };
+        });
+    } else {
+        if (selectedRange) finalChartTitle = 'Day Summary';
         finalChartData = [{
             name: 'Summary',
             Sales: finalAnalysis.totalSales,
             Purchases: finalAnalysis.totalPurchases,
             'Gross Profit': finalAnalysis.grossProfit,
-            'Net Profit': finalAnalysis.netProfit
+            'Net Profit': finalAnalysis.netProfit,
+            ...(comparisonReport ? {
+              'Previous Sales': comparisonReport.analysis.totalSales,
+              'Previous Gross Profit': comparisonReport.analysis.grossProfit,
+            } : {}),
         }];
     }
 
-    return { analysis: finalAnalysis, chartData: finalChartData, chartTitle: finalChartTitle };
+    return {
+      analysis: finalAnalysis,
+      comparison: comparisonReport ? { analysis: comparisonReport.analysis, range: comparisonReport.range } : null,
+      chartData: finalChartData,
+      chartTitle: finalChartTitle,
+      productBreakdown: report.productBreakdown,
+      ingredientUsage: report.ingredientUsage,
+      range: report.range,
+    };
+
+  }, [data, selectedRange, timeframe, comparisonMode, currentTime]);
+
+  const renderDelta = (key: keyof Pick<Analysis, 'totalSales' | 'totalPurchases' | 'grossProfit' | 'netProfit'>) =>
+    comparison ? <Delta current={analysis[key]} previous={comparison.analysis[key]} /> : null;
 
-  }, [data, timeframe, currentTime]);
+  const isCurrentPeriod = !selectedRange || (range.start <= currentTime && currentTime < range.end);
+  // For a period that has ended, today's stock value says little about it.
+  const showClosingInventory = !isCurrentPeriod && !analysis.cogsEstimated;
+
+  const handleShiftPeriod = (direction: number) => {
+    if (timeframe === 'daily' || timeframe === 'weekly' || timeframe === 'monthly') {
+      setAnchorDate(prev => shiftAnchor(timeframe, prev, direction));
+    }
+  };
 
   const handleDownloadPdf = async () => {
     if (!reportRef.current || isGeneratingPdf) return;
@@ -192,8 +185,7 @@ const Report: React.FC<ReportProps> = ({ data }) => {
         heightLeft -= pdfPageHeight;
       }
   
-      const date = new Date().toISOString().split('T')[0];
-      const filename = `Pizza-Kiosk-Report-${timeframe}-${date}.pdf`;
+      const filename = `Pizza-Kiosk-Report-${toDateInput(range.start)}-to-${toDateInput(addDays(range.end, -1))}.pdf`;
       pdf.save(filename);
     } catch (error) {
       console.error("Error generating PDF:", error);
@@ -203,28 +195,37 @@ const Report: React.FC<ReportProps> = ({ data }) => {
     }
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-PH', { style: 'currency', currency: 'PHP' }).format(value);
-  };
-
-  const timeframeLabels: Record<Timeframe, { title: string; rentLabel: string; expenseLabel: string }> = {
-    all: { title: 'Operational Analysis Report', rentLabel: 'Monthly Rent', expenseLabel: 'Total Other Monthly Expenses' },
-    monthly: { title: "This Month's Report", rentLabel: 'Monthly Rent', expenseLabel: 'Total Other Monthly Expenses' },
-    weekly: { title: "This Week's Report", rentLabel: 'Prorated Weekly Rent', expenseLabel: 'Prorated Other Expenses' },
-    daily: { title: "Today's Report", rentLabel: 'Prorated Daily Rent', expenseLabel: 'Prorated Other Expenses' }
+  const timeframeLabels: Record<Timeframe, { title: string; currentTitle: string }> = {
+    all: { title: 'Operational Analysis Report', currentTitle: 'Operational Analysis Report' },
+    monthly: { title: 'Monthly Report', currentTitle: "This Month's Report" },
+    weekly: { title: 'Weekly Report', currentTitle: "This Week's Report" },
+    daily: { title: 'Daily Report', currentTitle: "Today's Report" },
+    custom: { title: 'Custom Range Report', currentTitle: 'Custom Range Report' },
   };
   const currentLabels = timeframeLabels[timeframe];
+  const isNavigable = timeframe === 'daily' || timeframe === 'weekly' || timeframe === 'monthly';
 
   return (
     <Card>
-      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
-        <h2 className="text-2xl font-bold text-primary whitespace-nowrap">{currentLabels.title}</h2>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-primary whitespace-nowrap">
+            {isCurrentPeriod ? currentLabels.currentTitle : currentLabels.title}
+          </h2>
+          <p className="text-sm text-gray-400">{formatRange(range)}</p>
+          {comparison && (
+            <p className="text-xs text-gray-500">
+              Compared with {formatRange(comparison.range)}
+              {isCurrentPeriod && ' · this period is not over, so its figures are partial'}
+            </p>
+          )}
+        </div>
         <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-4 w-full sm:w-auto">
           <div className="flex space-x-1 bg-gray-900 p-1 rounded-lg justify-center">
-            {(['all', 'monthly', 'weekly', 'daily'] as Timeframe[]).map(tf => (
+            {(['all', 'monthly', 'weekly', 'daily', 'custom'] as Timeframe[]).map(tf => (
               <button
                 key={tf}
-                onClick={() => setTimeframe(tf)}
+                onClick={() => { setTimeframe(tf); setAnchorDate(new Date()); }}
                 className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors duration-200 capitalize ${
                   timeframe === tf ? 'bg-accent text-white' : 'text-gray-400 hover:bg-gray-800'
                 }`}
@@ -233,7 +234,7 @@ const Report: React.FC<ReportProps> = ({ data }) => {
               </button>
             ))}
           </div>
-          {(timeframe === 'daily' || timeframe === 'monthly' || timeframe === 'weekly') && (
+          {timeframe !== 'all' && (
             <Button
               onClick={handleDownloadPdf}
               disabled={isGeneratingPdf}
@@ -244,56 +245,204 @@ const Report: React.FC<ReportProps> = ({ data }) => {
           )}
         </div>
       </div>
+
+      {isNavigable && (
+        <div className="flex items-center justify-between gap-2 mb-6">
+          <Button onClick={() => handleShiftPeriod(-1)} className="bg-gray-700 hover:bg-gray-600 py-1">← Previous</Button>
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              value={toDateInput(anchorDate)}
+              onChange={(e) => e.target.value && setAnchorDate(new Date(`${e.target.value}T00:00:00`))}
+              className="py-1"
+              aria-label="Show period containing date"
+            />
+            {!isCurrentPeriod && (
+              <button onClick={() => setAnchorDate(new Date())} className="text-sm text-primary hover:text-accent whitespace-nowrap">
+                Today
+              </button>
+            )}
+          </div>
+          <Button onClick={() => handleShiftPeriod(1)} disabled={range.end > currentTime} className="bg-gray-700 hover:bg-gray-600 py-1">Next →</Button>
+        </div>
+      )}
+
+      {timeframe !== 'all' && (
+        <div className="flex space-x-1 bg-gray-900 p-1 rounded-lg justify-center mb-6">
+          {(Object.keys(comparisonLabels) as ComparisonMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => setComparisonMode(mode)}
+              className={`flex-1 px-3 py-1 text-sm font-semibold rounded-md transition-colors duration-200 ${
+                comparisonMode === mode ? 'bg-accent text-white' : 'text-gray-400 hover:bg-gray-800'
+              }`}
+            >
+              {comparisonLabels[mode]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {timeframe === 'custom' && (
+        <div className="flex flex-col sm:flex-row items-stretch sm:items-end gap-2 mb-6">
+          <div className="w-full">
+            <label htmlFor="report-start" className="block text-sm font-medium text-secondary mb-1">From</label>
+            <Input id="report-start" type="date" value={customStart} onChange={(e) => setCustomStart(e.target.value)} />
+          </div>
+          <div className="w-full">
+            <label htmlFor="report-end" className="block text-sm font-medium text-secondary mb-1">To</label>
+            <Input id="report-end" type="date" value={customEnd} onChange={(e) => setCustomEnd(e.target.value)} />
+          </div>
+        </div>
+      )}
       
       <div ref={reportRef}>
         <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-8 text-center">
           <div className="bg-gray-900 p-4 rounded-lg">
             <p className="text-sm text-gray-400">Total Sales</p>
             <p className="text-2xl font-semibold text-green-400">{formatCurrency(analysis.totalSales)}</p>
+            {renderDelta('totalSales')}
           </div>
           <div className="bg-gray-900 p-4 rounded-lg">
-            <p className="text-sm text-gray-400">Total Purchases (COGS)</p>
+            <p className="text-sm text-gray-400">Total Purchases</p>
             <p className="text-2xl font-semibold text-red-400">{formatCurrency(analysis.totalPurchases)}</p>
+            {renderDelta('totalPurchases')}
+          </div>
+          <div className="bg-gray-900 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">Cost of Goods Sold{analysis.cogsEstimated ? ' (est.)' : ''}</p>
+            <p className="text-2xl font-semibold text-red-400">{formatCurrency(analysis.cogs)}</p>
           </div>
           <div className="bg-gray-900 p-4 rounded-lg">
             <p className="text-sm text-gray-400">Gross Profit</p>
             <p className="text-2xl font-semibold text-primary">{formatCurrency(analysis.grossProfit)}</p>
+            {renderDelta('grossProfit')}
           </div>
           <div className="bg-gray-900 p-4 rounded-lg">
-            <p className="text-sm text-gray-400">Inventory Value</p>
-            <p className="text-2xl font-semibold text-secondary">{formatCurrency(analysis.inventoryValue)}</p>
+            <p className="text-sm text-gray-400">{showClosingInventory ? 'Closing Inventory' : 'Inventory Value'}</p>
+            <p className="text-2xl font-semibold text-secondary">
+              {formatCurrency(showClosingInventory ? analysis.closingInventory : analysis.inventoryValue)}
+            </p>
           </div>
           <div className="bg-gray-900 p-4 rounded-lg">
-            <p className="text-sm text-gray-400">{currentLabels.rentLabel}</p>
+            <p className="text-sm text-gray-400">Rent</p>
             <p className="text-2xl font-semibold text-red-400">{formatCurrency(analysis.rent)}</p>
           </div>
            <div className="bg-gray-900 p-4 rounded-lg">
-            <p className="text-sm text-gray-400">{currentLabels.expenseLabel}</p>
+            <p className="text-sm text-gray-400">Other Expenses</p>
             <p className="text-2xl font-semibold text-red-400">{formatCurrency(analysis.otherExpenses)}</p>
           </div>
+          <div className="bg-gray-900 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">Waste & Spoilage</p>
+            <p className="text-2xl font-semibold text-red-400">{formatCurrency(analysis.wasteCost)}</p>
+          </div>
           <div className="bg-gray-900 p-4 rounded-lg border-2 border-primary col-span-2 md:col-span-3">
             <p className="text-sm text-gray-400">Net Profit</p>
             <p className={`text-3xl font-bold ${analysis.netProfit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
               {formatCurrency(analysis.netProfit)}
             </p>
+            {renderDelta('netProfit')}
           </div>
         </div>
         
         <div className="bg-gray-900 p-4 rounded-lg mb-8">
           <h3 className="text-lg font-semibold text-primary mb-2">Calculation Breakdown</h3>
           <div className="text-sm space-y-1 text-secondary">
+              {analysis.cogsEstimated ? (
+                <>
+                  <p><strong>COGS</strong> = Total Purchases <span className="text-gray-400">(no inventory snapshot covers this period yet)</span></p>
+                  <p>{formatCurrency(analysis.totalPurchases)} = <span className="font-bold">{formatCurrency(analysis.cogs)}</span></p>
+                </>
+              ) : (
+                <>
+                  <p><strong>COGS</strong> = Opening Inventory + Purchases - Closing Inventory <span className="text-gray-400">({data.settings?.costingMethod === 'average' ? 'weighted average' : 'FIFO'} costing)</span></p>
+                  <p>({formatCurrency(analysis.openingInventory)} + {formatCurrency(analysis.totalPurchases)} - {formatCurrency(analysis.closingInventory)}) = <span className="font-bold">{formatCurrency(analysis.cogs)}</span></p>
+                </>
+              )}
+              {analysis.wasteCost > 0 && (
+                <p className="text-gray-400">
+                  Includes {formatCurrency(analysis.wasteCost)} of waste:{' '}
+                  {(Object.entries(analysis.wasteByReason) as [WasteReason, number][])
+                    .map(([reason, cost]) => `${WASTE_REASON_LABELS[reason] || reason} ${formatCurrency(cost)}`)
+                    .join(', ')}
+                </p>
+              )}
+              <hr className="border-gray-700 my-2" />
               <p><strong>Gross Profit</strong> = Total Sales - COGS</p>
               <p>({formatCurrency(analysis.totalSales)} - {formatCurrency(analysis.cogs)}) = <span className="font-bold">{formatCurrency(analysis.grossProfit)}</span></p>
               <hr className="border-gray-700 my-2" />
               <p><strong>Net Profit</strong> = Gross Profit - (Rent + Other Expenses)</p>
               <p>({formatCurrency(analysis.grossProfit)} - ({formatCurrency(analysis.rent)} + {formatCurrency(analysis.otherExpenses)})) = <span className="font-bold">{formatCurrency(analysis.netProfit)}</span></p>
+              {Object.keys(analysis.expensesByCategory).length > 0 && (
+                <p className="text-gray-400">
+                  Expenses by category (recurring amounts prorated by calendar day):{' '}
+                  {(Object.entries(analysis.expensesByCategory) as [ExpenseCategory, number][])
+                    .map(([category, amount]) => `${EXPENSE_CATEGORY_LABELS[category] || category} ${formatCurrency(amount)}`)
+                    .join(', ')}
+                </p>
+              )}
           </div>
         </div>
 
+        {productBreakdown.length > 0 && (
+          <div className="bg-gray-900 p-4 rounded-lg mb-8">
+            <h3 className="text-lg font-semibold text-primary mb-2">Sales by Product</h3>
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="border-b border-sky-900">
+                  <th className="p-2 font-bold text-primary">Product</th>
+                  <th className="p-2 text-right font-bold text-primary">Units Sold</th>
+                  <th className="p-2 text-right font-bold text-primary">Revenue</th>
+                </tr>
+              </thead>
+              <tbody>
+                {productBreakdown.map(row => (
+                  <tr key={row.key} className="border-b border-gray-800">
+                    <td className="p-2 font-medium">{row.item}</td>
+                    <td className="p-2 text-right">{row.itemized ? row.units : '—'}</td>
+                    <td className="p-2 text-right">{formatCurrency(row.revenue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {ingredientUsage.length > 0 && (
+          <div className="bg-gray-900 p-4 rounded-lg mb-8">
+            <h3 className="text-lg font-semibold text-primary mb-2">Ingredients Used</h3>
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="border-b border-sky-900">
+                  <th className="p-2 font-bold text-primary">Ingredient</th>
+                  <th className="p-2 text-right font-bold text-primary">Used</th>
+                  <th className="p-2 text-right font-bold text-primary">Avg Cost</th>
+                  <th className="p-2 text-right font-bold text-primary">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ingredientUsage.map(row => {
+                  const unit = getBaseUnit(data.catalog || [], row.item);
+                  return (
+                    <tr key={row.item} className="border-b border-gray-800">
+                      <td className="p-2 font-medium">{row.item}</td>
+                      <td className="p-2 text-right">{formatQuantity(row.quantity)}{unit && ` ${unit}`}</td>
+                      <td className="p-2 text-right">
+                        {row.quantity > 0 ? formatUnitCost(row.cost / row.quantity) : '—'}
+                        {unit && row.quantity > 0 && <span className="text-gray-400">/{unit}</span>}
+                      </td>
+                      <td className="p-2 text-right">{formatCurrency(row.cost)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         <div className="h-80 w-full mt-4">
           <h3 className="text-lg font-semibold text-primary mb-2 text-center">{chartTitle}</h3>
           <ResponsiveContainer width="100%" height="100%">
-            <BarChart data={chartData} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+            <ComposedChart data={chartData} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
               <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
               <XAxis dataKey="name" stroke="#d0e6ff" />
               <YAxis stroke="#d0e6ff" tickFormatter={(value) => `₱${value}`} />
@@ -306,8 +455,10 @@ const Report: React.FC<ReportProps> = ({ data }) => {
               <Bar dataKey="Sales" fill="#22c55e" />
               <Bar dataKey="Purchases" fill="#ef4444" />
               <Bar dataKey="Gross Profit" fill="#66ccff" />
-              {(timeframe === 'all' || timeframe === 'daily') && <Bar dataKey="Net Profit" fill="#3b82f6" />}
-            </BarChart>
+              {chartData.length === 1 && chartData[0].name === 'Summary' && <Bar dataKey="Net Profit" fill="#3b82f6" />}
+              {comparison && <Line type="monotone" dataKey="Previous Sales" stroke="#86efac" strokeDasharray="5 5" dot={{ r: 3 }} />}
+              {comparison && <Line type="monotone" dataKey="Previous Gross Profit" stroke="#bae6fd" strokeDasharray="5 5" dot={{ r: 3 }} />}
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
       </div>
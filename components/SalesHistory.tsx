@@ -11,6 +11,8 @@ interface SalesHistoryProps {
   onDeleteSale: (saleId: string) => void;
 }
 
+const isItemized = (sale: Sale) => sale.unitPrice !== undefined;
+
 const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, onUpdateSale, onDeleteSale }) => {
   const [editingSaleId, setEditingSaleId] = useState<string | null>(null);
   const [editedSale, setEditedSale] = useState<Sale | null>(null);
@@ -26,10 +28,16 @@ const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, onUpdateSale, onDele
 
   const handleSaveClick = () => {
     if (editedSale && editingSaleId !== null) {
-      const saleToSave: Sale = {
+      let saleToSave: Sale = {
           ...editedSale,
           revenue: parseFloat(String(editedSale.revenue)) || 0,
       };
+      // Itemized sales keep revenue in step with quantity and unit price.
+      if (isItemized(editedSale)) {
+        const quantity = parseFloat(String(editedSale.quantity)) || 0;
+        const unitPrice = parseFloat(String(editedSale.unitPrice)) || 0;
+        saleToSave = { ...saleToSave, quantity, unitPrice, revenue: quantity * unitPrice };
+      }
       onUpdateSale(saleToSave);
       setEditingSaleId(null);
       setEditedSale(null);
@@ -69,6 +77,8 @@ const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, onUpdateSale, onDele
           <thead>
             <tr className="border-b border-sky-900">
               <th className="p-2 font-bold text-primary">Date</th>
+              <th className="p-2 font-bold text-primary">Item</th>
+              <th className="p-2 text-right font-bold text-primary">Qty</th>
               <th className="p-2 text-right font-bold text-primary">Revenue</th>
               <th className="p-2 text-center font-bold text-primary">Actions</th>
             </tr>
@@ -80,7 +90,7 @@ const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, onUpdateSale, onDele
                    {editingSaleId === sale.id ? (
                      saleToDeleteId === sale.id ? (
                       <>
-                         <td className="p-2 font-medium text-red-400" colSpan={2}>Are you sure?</td>
+                         <td className="p-2 font-medium text-red-400" colSpan={4}>Are you sure?</td>
                          <td className="p-2 text-center">
                              <div className="flex gap-2 justify-center items-center">
                                  <Button onClick={() => handleConfirmDelete(sale.id)} className="bg-red-600 hover:bg-red-700 text-xs py-1 px-2">Confirm</Button>
@@ -99,15 +109,43 @@ const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, onUpdateSale, onDele
                             className="py-1 text-sm bg-gray-800"
                           />
                         </td>
-                        <td className="p-2 text-right">
-                          <Input
-                            type="number"
-                            name="revenue"
-                            value={editedSale?.revenue ?? ''}
-                            onChange={handleEditChange}
-                            className="py-1 text-sm bg-gray-800 text-right w-32"
-                          />
-                        </td>
+                        <td className="p-2">{sale.item}</td>
+                        {editedSale && isItemized(editedSale) ? (
+                          <>
+                            <td className="p-2 text-right">
+                              <Input
+                                type="number"
+                                name="quantity"
+                                value={editedSale.quantity ?? ''}
+                                onChange={handleEditChange}
+                                className="py-1 text-sm bg-gray-800 text-right w-20"
+                              />
+                            </td>
+                            <td className="p-2 text-right">
+                              <Input
+                                type="number"
+                                name="unitPrice"
+                                value={editedSale.unitPrice ?? ''}
+                                onChange={handleEditChange}
+                                className="py-1 text-sm bg-gray-800 text-right w-32"
+                                aria-label="Price per unit"
+                              />
+                            </td>
+                          </>
+                        ) : (
+                          <>
+                            <td className="p-2 text-right">{sale.quantity}</td>
+                            <td className="p-2 text-right">
+                              <Input
+                                type="number"
+                                name="revenue"
+                                value={editedSale?.revenue ?? ''}
+                                onChange={handleEditChange}
+                                className="py-1 text-sm bg-gray-800 text-right w-32"
+                              />
+                            </td>
+                          </>
+                        )}
                         <td className="p-2 text-center">
                           <div className="flex gap-3 justify-center items-center">
                             <button onClick={handleSaveClick} className="text-green-400 hover:text-green-300 text-xl font-bold">✓</button>
@@ -122,6 +160,8 @@ const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, onUpdateSale, onDele
                       <td className="p-2 font-medium">
                         {sale.date ? new Date(sale.date).toLocaleDateString() : 'N/A'}
                       </td>
+                      <td className="p-2">{sale.item}</td>
+                      <td className="p-2 text-right">{sale.quantity}</td>
                       <td className="p-2 text-right">₱{(parseFloat(String(sale.revenue)) || 0).toFixed(2)}</td>
                       <td className="p-2 text-center">
                           <div className="flex gap-3 justify-center">
@@ -134,7 +174,7 @@ const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, onUpdateSale, onDele
               ))
             ) : (
               <tr>
-                <td colSpan={3} className="p-4 text-center text-gray-400">
+                <td colSpan={5} className="p-4 text-center text-gray-400">
                   No sales recorded yet.
                 </td>
               </tr>
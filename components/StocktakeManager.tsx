@@ -0,0 +1,198 @@
+
+import React, { useState, useMemo } from 'react';
+import { InventoryItem, Stocktake, StocktakeLine } from '../types';
+import { groupInventoryByItem } from '../utils/inventory';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Input from './ui/Input';
+
+interface StocktakeManagerProps {
+  inventory: InventoryItem[];
+  stocktakes: Stocktake[];
+  onSaveStocktake: (stocktake: Omit<Stocktake, 'id'>) => void;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-PH', { style: 'currency', currency: 'PHP' }).format(value);
+};
+
+const formatQuantity = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const StocktakeManager: React.FC<StocktakeManagerProps> = ({ inventory, stocktakes, onSaveStocktake }) => {
+  const [isCounting, setIsCounting] = useState(false);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [countDate, setCountDate] = useState(new Date().toISOString().split('T')[0]);
+  const [selectedStocktakeId, setSelectedStocktakeId] = useState<string | null>(null);
+
+  const stock = useMemo(() => groupInventoryByItem(inventory || []), [inventory]);
+
+  const sortedStocktakes = useMemo(
+    () => (stocktakes || []).slice().sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+    [stocktakes]
+  );
+
+  const selectedStocktake = sortedStocktakes.find(s => s.id === selectedStocktakeId) || null;
+
+  const getVariance = (line: StocktakeLine) => {
+    const units = line.counted - line.expected;
+    return { units, value: units * line.costPerUnit };
+  };
+
+  const getTotalVarianceValue = (stocktake: Stocktake) =>
+    stocktake.lines.reduce((acc, line) => acc + getVariance(line).value, 0);
+
+  const handleStart = () => {
+    setIsCounting(true);
+    setCounts({});
+    setCountDate(new Date().toISOString().split('T')[0]);
+  };
+
+  const handleCancel = () => {
+    setIsCounting(false);
+    setCounts({});
+  };
+
+  const handleSave = () => {
+    // Ingredients left blank were not counted and keep their expected quantity.
+    const lines: StocktakeLine[] = stock
+      .filter(entry => counts[entry.item] !== undefined && counts[entry.item] !== '')
+      .map(entry => ({
+        item: entry.item,
+        expected: entry.quantity,
+        counted: parseFloat(counts[entry.item]) || 0,
+        costPerUnit: entry.averageCost,
+      }));
+    if (lines.length === 0) {
+      return;
+    }
+    onSaveStocktake({ date: new Date(countDate).toISOString(), lines });
+    setIsCounting(false);
+    setCounts({});
+  };
+
+  const countedItems = Object.values(counts).filter(value => value !== '').length;
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold text-primary">Stocktake</h2>
+        {!isCounting && (
+          <Button onClick={handleStart} disabled={stock.length === 0}>Start Count</Button>
+        )}
+      </div>
+
+      {isCounting && (
+        <div className="space-y-4 mb-6">
+          <div>
+            <label htmlFor="count-date" className="block text-sm font-medium text-secondary mb-1">
+              Count Date
+            </label>
+            <Input
+              id="count-date"
+              type="date"
+              value={countDate}
+              onChange={(e) => setCountDate(e.target.value)}
+            />
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="border-b border-sky-900">
+                  <th className="p-2 font-bold text-primary">Item</th>
+                  <th className="p-2 text-right font-bold text-primary">Expected</th>
+                  <th className="p-2 text-right font-bold text-primary">Counted</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stock.map(entry => (
+                  <tr key={entry.item} className="border-b border-gray-800">
+                    <td className="p-2 font-medium">{entry.item}</td>
+                    <td className="p-2 text-right">{formatQuantity(entry.quantity)}</td>
+                    <td className="p-2 text-right">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={counts[entry.item] ?? ''}
+                        onChange={(e) => setCounts(prev => ({ ...prev, [entry.item]: e.target.value }))}
+                        className="py-1 text-sm bg-gray-800 text-right w-24 ml-auto"
+                        aria-label={`Counted ${entry.item}`}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-sm text-gray-400">Leave an item blank if it was not counted.</p>
+          <div className="flex gap-2">
+            <Button onClick={handleSave} className="w-full" disabled={countedItems === 0}>
+              Save Stocktake ({countedItems} counted)
+            </Button>
+            <Button onClick={handleCancel} className="bg-gray-600 hover:bg-gray-700">Cancel</Button>
+          </div>
+        </div>
+      )}
+
+      <h3 className="text-lg font-semibold text-secondary mb-2">Variance Reports</h3>
+      {sortedStocktakes.length > 0 ? (
+        <ul className="space-y-2">
+          {sortedStocktakes.map(stocktake => {
+            const totalValue = getTotalVarianceValue(stocktake);
+            const isSelected = selectedStocktake?.id === stocktake.id;
+            return (
+              <li key={stocktake.id} className="bg-gray-900 p-2 rounded-md">
+                <button
+                  onClick={() => setSelectedStocktakeId(isSelected ? null : stocktake.id)}
+                  className="w-full flex justify-between items-center text-left"
+                >
+                  <span>{new Date(stocktake.date).toLocaleDateString()} · {stocktake.lines.length} items</span>
+                  <span className={`font-semibold ${totalValue < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                    {formatCurrency(totalValue)}
+                  </span>
+                </button>
+                {isSelected && (
+                  <div className="overflow-x-auto mt-2">
+                    <table className="w-full text-left text-sm">
+                      <thead>
+                        <tr className="border-b border-sky-900">
+                          <th className="p-2 font-bold text-primary">Item</th>
+                          <th className="p-2 text-right font-bold text-primary">Expected</th>
+                          <th className="p-2 text-right font-bold text-primary">Counted</th>
+                          <th className="p-2 text-right font-bold text-primary">Variance</th>
+                          <th className="p-2 text-right font-bold text-primary">Value</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {stocktake.lines.map(line => {
+                          const variance = getVariance(line);
+                          return (
+                            <tr key={line.item} className="border-b border-gray-800">
+                              <td className="p-2 font-medium">{line.item}</td>
+                              <td className="p-2 text-right">{formatQuantity(line.expected)}</td>
+                              <td className="p-2 text-right">{formatQuantity(line.counted)}</td>
+                              <td className={`p-2 text-right ${variance.units < 0 ? 'text-red-400' : ''}`}>
+                                {variance.units > 0 ? '+' : ''}{formatQuantity(variance.units)}
+                              </td>
+                              <td className={`p-2 text-right ${variance.value < 0 ? 'text-red-400' : ''}`}>
+                                {formatCurrency(variance.value)}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-center text-gray-400">No stocktakes recorded yet.</p>
+      )}
+    </Card>
+  );
+};
+
+export default StocktakeManager;
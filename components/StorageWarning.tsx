@@ -0,0 +1,43 @@
+
+import React from 'react';
+import { StorageStatus } from '../hooks/useAppStorage';
+
+interface StorageWarningProps {
+  status: StorageStatus;
+}
+
+// Share of the browser's storage quota in use before we start warning.
+const NEAR_QUOTA_RATIO = 0.8;
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const StorageWarning: React.FC<StorageWarningProps> = ({ status }) => {
+  const { writeError, estimate } = status;
+  const isNearQuota = !!estimate && estimate.quota > 0 && estimate.usage / estimate.quota >= NEAR_QUOTA_RATIO;
+
+  if (!writeError && !isNearQuota) {
+    return null;
+  }
+
+  return (
+    <div className={`mb-6 p-4 rounded-lg border ${writeError ? 'bg-red-900/40 border-red-700' : 'bg-yellow-900/40 border-yellow-700'}`}>
+      {writeError ? (
+        <>
+          <p className="font-semibold text-red-300">Your latest changes could not be saved on this device.</p>
+          <p className="text-sm text-red-200 mt-1">
+            {writeError} Export a backup from Data Management now so nothing is lost. Saving is retried with your next change.
+          </p>
+        </>
+      ) : (
+        <>
+          <p className="font-semibold text-yellow-300">Storage is almost full.</p>
+          <p className="text-sm text-yellow-200 mt-1">
+            {formatMegabytes(estimate!.usage)} of {formatMegabytes(estimate!.quota)} used. Export a backup and consider removing old records before saving starts to fail.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StorageWarning;
@@ -0,0 +1,245 @@
+
+import React, { useState, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Purchase, Supplier } from '../types';
+import { isSameItem } from '../utils/inventory';
+import { getLatestPrices, getPriceHistory, getSupplierName, getSupplierSpend } from '../utils/suppliers';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Input from './ui/Input';
+
+interface SupplierManagerProps {
+  suppliers: Supplier[];
+  purchases: Purchase[];
+  onAddSupplier: (supplier: Omit<Supplier, 'id'>) => void;
+  onUpdateSupplier: (supplier: Supplier) => void;
+  onDeleteSupplier: (supplierId: string) => void;
+}
+
+const selectClassName = 'bg-gray-900 border border-sky-900 text-secondary text-sm rounded-lg focus:ring-primary focus:border-primary block w-full p-2.5';
+
+const LINE_COLORS = ['#22c55e', '#66ccff', '#f59e0b', '#ef4444', '#a78bfa', '#f472b6', '#94a3b8'];
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-PH', { style: 'currency', currency: 'PHP' }).format(value);
+};
+
+const SupplierManager: React.FC<SupplierManagerProps> = ({ suppliers, purchases, onAddSupplier, onUpdateSupplier, onDeleteSupplier }) => {
+  const [editingSupplierId, setEditingSupplierId] = useState<string | null>(null);
+  const [supplierToDeleteId, setSupplierToDeleteId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [contact, setContact] = useState('');
+  const [notes, setNotes] = useState('');
+  const [priceItem, setPriceItem] = useState('');
+
+  const spend = useMemo(() => getSupplierSpend(purchases || [], suppliers || []), [purchases, suppliers]);
+
+  const purchasedItems = useMemo(() => {
+    const names: string[] = [];
+    (purchases || []).forEach(purchase => {
+      if (purchase.item && !names.some(name => isSameItem(name, purchase.item))) names.push(purchase.item);
+    });
+    return names.sort((a, b) => a.localeCompare(b));
+  }, [purchases]);
+
+  const selectedItem = purchasedItems.includes(priceItem) ? priceItem : purchasedItems[0] || '';
+
+  const priceHistory = useMemo(
+    () => (selectedItem ? getPriceHistory(purchases || [], selectedItem) : []),
+    [purchases, selectedItem]
+  );
+
+  const latestPrices = useMemo(() => getLatestPrices(priceHistory, suppliers || []), [priceHistory, suppliers]);
+
+  // One row per day, one column per supplier. A second purchase on the same day from the same supplier wins.
+  const chartData = useMemo(() => {
+    const rows = new Map<string, Record<string, string | number>>();
+    priceHistory.forEach(point => {
+      const row = rows.get(point.day) || { day: point.day };
+      row[point.supplierKey] = point.unitPrice;
+      rows.set(point.day, row);
+    });
+    return Array.from(rows.values());
+  }, [priceHistory]);
+
+  const resetForm = () => {
+    setEditingSupplierId(null);
+    setName('');
+    setContact('');
+    setNotes('');
+  };
+
+  const handleEditClick = (supplier: Supplier) => {
+    setEditingSupplierId(supplier.id);
+    setSupplierToDeleteId(null);
+    setName(supplier.name);
+    setContact(supplier.contact || '');
+    setNotes(supplier.notes || '');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      return;
+    }
+    const supplier: Omit<Supplier, 'id'> = {
+      name: name.trim(),
+      contact: contact.trim() || undefined,
+      notes: notes.trim() || undefined,
+    };
+    if (editingSupplierId) {
+      onUpdateSupplier({ ...supplier, id: editingSupplierId });
+    } else {
+      onAddSupplier(supplier);
+    }
+    resetForm();
+  };
+
+  const handleConfirmDelete = (supplierId: string) => {
+    onDeleteSupplier(supplierId);
+    setSupplierToDeleteId(null);
+    if (editingSupplierId === supplierId) {
+      resetForm();
+    }
+  };
+
+  return (
+    <Card>
+      <h2 className="text-2xl font-bold text-primary mb-4">Suppliers</h2>
+
+      {suppliers.length > 0 ? (
+        <ul className="space-y-2 mb-6 max-h-72 overflow-y-auto pr-1">
+          {suppliers.map(supplier => (
+            <li key={supplier.id} className="bg-gray-900 p-2 rounded-md">
+              {supplierToDeleteId === supplier.id ? (
+                <div className="flex justify-between items-center gap-2">
+                  <span className="font-medium text-red-400">Delete {supplier.name}? Past purchases keep their prices.</span>
+                  <div className="flex gap-2">
+                    <Button onClick={() => handleConfirmDelete(supplier.id)} className="bg-red-600 hover:bg-red-700 text-xs py-1 px-2">Confirm</Button>
+                    <Button onClick={() => setSupplierToDeleteId(null)} className="bg-gray-600 hover:bg-gray-700 text-xs py-1 px-2">Cancel</Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex justify-between items-center gap-2">
+                  <div className="min-w-0">
+                    <p className="font-semibold">{supplier.name}</p>
+                    {supplier.contact && <p className="text-xs text-gray-400">{supplier.contact}</p>}
+                    {supplier.notes && <p className="text-xs text-gray-400">{supplier.notes}</p>}
+                  </div>
+                  <div className="flex gap-3 flex-shrink-0">
+                    <button onClick={() => handleEditClick(supplier)} className="text-primary hover:text-accent">✏️</button>
+                    <button onClick={() => setSupplierToDeleteId(supplier.id)} className="text-red-500 hover:text-red-400">🗑️</button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-center text-gray-400 mb-6">No suppliers added yet.</p>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-3 mb-6">
+        <h3 className="text-lg font-semibold text-secondary">{editingSupplierId ? 'Edit Supplier' : 'Add Supplier'}</h3>
+        <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name (e.g., Stall 12, Public Market)" />
+        <Input value={contact} onChange={(e) => setContact(e.target.value)} placeholder="Contact (optional)" />
+        <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Notes (optional)" />
+        <div className="flex gap-2">
+          <Button type="submit" className="w-full" disabled={!name.trim()}>{editingSupplierId ? 'Save Supplier' : 'Add Supplier'}</Button>
+          {editingSupplierId && (
+            <Button type="button" onClick={resetForm} className="bg-gray-600 hover:bg-gray-700">Cancel</Button>
+          )}
+        </div>
+      </form>
+
+      {spend.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-lg font-semibold text-secondary mb-2">Spend by Supplier</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="border-b border-sky-900">
+                  <th className="p-2 font-bold text-primary">Supplier</th>
+                  <th className="p-2 text-right font-bold text-primary">Purchases</th>
+                  <th className="p-2 text-right font-bold text-primary">Spend</th>
+                  <th className="p-2 text-right font-bold text-primary">Last Bought</th>
+                </tr>
+              </thead>
+              <tbody>
+                {spend.map(entry => (
+                  <tr key={entry.key} className="border-b border-gray-800">
+                    <td className="p-2">{entry.name}</td>
+                    <td className="p-2 text-right">{entry.purchaseCount}</td>
+                    <td className="p-2 text-right">{formatCurrency(entry.spend)}</td>
+                    <td className="p-2 text-right text-gray-400">{entry.lastPurchase ? new Date(entry.lastPurchase).toLocaleDateString() : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {purchasedItems.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-secondary mb-2">Unit Price by Supplier</h3>
+          <select
+            value={selectedItem}
+            onChange={(e) => setPriceItem(e.target.value)}
+            className={`${selectClassName} mb-4`}
+            aria-label="Ingredient"
+          >
+            {purchasedItems.map(item => (
+              <option key={item} value={item}>{item}</option>
+            ))}
+          </select>
+          {latestPrices.length > 0 && (
+            <ul className="text-sm space-y-1 mb-4">
+              {latestPrices.map((price, index) => (
+                <li key={price.supplierKey} className="flex justify-between gap-2">
+                  <span>
+                    {price.name}
+                    {index === 0 && latestPrices.length > 1 && <span className="ml-2 text-xs text-green-400">cheapest</span>}
+                  </span>
+                  <span>
+                    {formatCurrency(price.unitPrice)}
+                    <span className="text-gray-400"> on {new Date(`${price.day}T00:00:00`).toLocaleDateString()}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {chartData.length > 1 && (
+            <div className="h-64 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="day" stroke="#d0e6ff" />
+                  <YAxis stroke="#d0e6ff" tickFormatter={(value) => `₱${value}`} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#111827', border: '1px solid #0ea5e9', color: '#d0e6ff' }}
+                    formatter={(value: number) => formatCurrency(value)}
+                  />
+                  <Legend wrapperStyle={{ color: '#d0e6ff' }} />
+                  {latestPrices.map((price, index) => (
+                    <Line
+                      key={price.supplierKey}
+                      type="monotone"
+                      dataKey={price.supplierKey}
+                      name={getSupplierName(price.supplierKey, suppliers)}
+                      stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                      connectNulls
+                      dot={{ r: 3 }}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default SupplierManager;
@@ -1,50 +1,102 @@
-import React, { useState, useMemo } from 'react';
-import { Purchase, Sale, InventoryItem } from '../types';
-import { CONSTANT_INVENTORY } from '../constants';
+import React, { useState, useMemo, useEffect } from 'react';
+import { CatalogItem, Purchase, Sale, InventoryItem, MenuProduct, Supplier, WasteRecord, WasteReason } from '../types';
+import { LUMP_SUM_SALE_ITEM, WASTE_REASON_LABELS } from '../constants';
+import { groupInventoryByItem } from '../utils/inventory';
+import { PurchaseSelection } from '../utils/reorder';
+import { findPriceSpike, PriceSpike } from '../utils/priceTrends';
+import { findCatalogItem } from '../utils/catalog';
+import { getBaseUnit, getPurchaseUnits } from '../utils/units';
 import Card from './ui/Card';
 import Button from './ui/Button';
 import Input from './ui/Input';
 
 interface TransactionManagerProps {
-  onAddPurchase: (purchase: Purchase) => void;
+  onAddPurchase: (purchase: Omit<Purchase, 'id' | 'lotId'>) => void;
   onAddSale: (sale: Omit<Sale, 'id'>) => void;
+  onAddWaste: (waste: Omit<WasteRecord, 'id' | 'consumption'>) => void;
   inventory: InventoryItem[];
+  purchases: Purchase[];
+  catalog: CatalogItem[];
+  products: MenuProduct[];
+  suppliers: Supplier[];
+  purchasePrefill: PurchasePrefill | null;
+  priceSpikeThreshold: number;
 }
 
-type TransactionType = 'purchase' | 'sale';
+/** Items to select on the purchase tab, e.g. a generated shopping list. A new `id` applies it again. */
+export interface PurchasePrefill {
+  id: string;
+  items: PurchaseSelection;
+}
+
+type TransactionType = 'purchase' | 'sale' | 'waste';
+type SaleMode = 'lump' | 'ticket' | 'tally';
+
+const saleModeLabels: Record<SaleMode, string> = {
+  lump: 'Daily Total',
+  ticket: 'Single Ticket',
+  tally: 'End-of-Day Tally',
+};
 
-const TransactionManager: React.FC<TransactionManagerProps> = ({ onAddPurchase, onAddSale, inventory }) => {
+const TransactionManager: React.FC<TransactionManagerProps> = ({ onAddPurchase, onAddSale, onAddWaste, inventory, purchases, catalog, products, suppliers, purchasePrefill, priceSpikeThreshold }) => {
   const [activeTab, setActiveTab] = useState<TransactionType>('purchase');
   
   // State for purchase tab
-  const [selectedItems, setSelectedItems] = useState<Record<string, { quantity: number; price?: number }>>({});
+  const [selectedItems, setSelectedItems] = useState<PurchaseSelection>({});
   const [purchaseDate, setPurchaseDate] = useState(new Date().toISOString().split('T')[0]);
+  const [purchaseSupplierId, setPurchaseSupplierId] = useState('');
+  const [priceSpikes, setPriceSpikes] = useState<PriceSpike[]>([]);
 
   // State for sale tab
+  const [saleMode, setSaleMode] = useState<SaleMode>('lump');
   const [dailySaleAmount, setDailySaleAmount] = useState('');
   const [saleDate, setSaleDate] = useState(new Date().toISOString().split('T')[0]);
+  const [ticketProductId, setTicketProductId] = useState('');
+  const [ticketQuantity, setTicketQuantity] = useState('1');
+  const [ticketPrice, setTicketPrice] = useState('');
+  const [tallyEntries, setTallyEntries] = useState<Record<string, { quantity: string; price: string }>>({});
 
-  const purchasableItems = useMemo(() => {
-    const itemsMap = new Map<string, { costPerUnit: number }>();
-    
-    // Add constant inventory items to the map
-    CONSTANT_INVENTORY.forEach(item => {
-      itemsMap.set(item.item, { costPerUnit: item.costPerUnit });
-    });
+  // State for waste tab
+  const [wasteItem, setWasteItem] = useState('');
+  const [wasteQuantity, setWasteQuantity] = useState('');
+  const [wasteReason, setWasteReason] = useState<WasteReason>('spoiled');
+  const [wasteNote, setWasteNote] = useState('');
+  const [wasteDate, setWasteDate] = useState(new Date().toISOString().split('T')[0]);
 
-    // Add/update with items from current inventory (manually added ones)
-    (inventory || []).filter(Boolean).forEach(item => {
-      const cost = parseFloat(String(item.costPerUnit)) || 0;
-      itemsMap.set(item.item, { 
-        costPerUnit: cost, 
-      });
-    });
+  // Active catalog ingredients, in catalog order, offered at their default cost.
+  const purchasableItems = useMemo(() => (catalog || [])
+    .filter(entry => entry && !entry.archived)
+    .map(entry => ({ item: entry.name, costPerUnit: entry.defaultCost, unit: entry.unit })),
+  [catalog]);
 
-    // Convert map to array and sort alphabetically by item name
-    return Array.from(itemsMap.entries())
-      .map(([item, prices]) => ({ item, ...prices }))
-      .sort((a, b) => a.item.localeCompare(b.item));
-  }, [inventory]);
+  // Quantities and prices are entered per the unit chosen for each item; records are kept in base units.
+  const getUnitFactor = (item: string) =>
+    getPurchaseUnits(findCatalogItem(catalog || [], item)).find(unit => unit.name === selectedItems[item]?.unit)?.factor ?? 1;
+
+  useEffect(() => {
+    if (!purchasePrefill) {
+      return;
+    }
+    // Only items the form lists can be selected, or they would be recorded without being shown.
+    const items = Object.fromEntries(
+      Object.entries(purchasePrefill.items).filter(([item]) => purchasableItems.some(i => i.item === item))
+    );
+    setActiveTab('purchase');
+    resetSaleForm();
+    setSelectedItems(items);
+    setPurchaseDate(new Date().toISOString().split('T')[0]);
+  }, [purchasePrefill?.id]);
+
+  // A warning is about the purchase as it was entered, so any change to it needs a fresh check.
+  useEffect(() => {
+    setPriceSpikes([]);
+  }, [selectedItems, purchaseDate]);
+
+  // Only what is in stock can be thrown away.
+  const stockedItems = useMemo(
+    () => groupInventoryByItem((inventory || []).filter(Boolean)).filter(group => group.quantity > 0),
+    [inventory]
+  );
 
   const handleCheckboxChange = (item: string, isChecked: boolean) => {
     setSelectedItems(prev => {
@@ -70,6 +122,29 @@ const TransactionManager: React.FC<TransactionManagerProps> = ({ onAddPurchase,
     }
   };
 
+  const handleExpiryChange = (item: string, expiryDate: string) => {
+    setSelectedItems(prev => ({
+      ...prev,
+      [item]: { ...prev[item], quantity: prev[item]?.quantity || 1, expiryDate: expiryDate || undefined },
+    }));
+  };
+
+  // Switching units keeps the same cost per base unit.
+  const handleUnitChange = (item: string, unitName: string) => {
+    const units = getPurchaseUnits(findCatalogItem(catalog || [], item));
+    const factorOf = (name?: string) => units.find(unit => unit.name === name)?.factor ?? 1;
+    const factor = factorOf(unitName);
+    setSelectedItems(prev => {
+      const current = prev[item];
+      // The unit being switched from is read from `prev`, which may be newer than this render.
+      const price = current?.price !== undefined ? (current.price / factorOf(current.unit)) * factor : undefined;
+      return {
+        ...prev,
+        [item]: { ...current, quantity: current?.quantity || 1, price, unit: factor === 1 ? undefined : unitName },
+      };
+    });
+  };
+
   const handlePriceChange = (item: string, price: string) => {
     const numPrice = parseFloat(price);
     if (!isNaN(numPrice) && numPrice >= 0) {
@@ -81,39 +156,157 @@ const TransactionManager: React.FC<TransactionManagerProps> = ({ onAddPurchase,
   };
 
 
+  const recordPurchases = () => {
+    Object.entries(selectedItems).forEach(([itemName, data]) => {
+      if (data.price !== undefined && data.price >= 0) {
+        const factor = getUnitFactor(itemName);
+        onAddPurchase({
+          item: itemName,
+          quantity: data.quantity * factor,
+          cost: data.quantity * data.price,
+          ...(factor !== 1 ? { purchaseUnit: { name: selectedItems[itemName].unit!, factor } } : {}),
+          date: new Date(purchaseDate).toISOString(),
+          ...(selectedItems[itemName].expiryDate ? { expiryDate: selectedItems[itemName].expiryDate } : {}),
+          ...(purchaseSupplierId ? { supplierId: purchaseSupplierId } : {}),
+        });
+      }
+    });
+    setSelectedItems({});
+    setPurchaseDate(new Date().toISOString().split('T')[0]);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (activeTab === 'purchase') {
-      Object.entries(selectedItems).forEach(([itemName, data]) => {
-        if (data.price !== undefined && data.price >= 0) {
-          onAddPurchase({
-            item: itemName,
-            quantity: data.quantity,
-            cost: data.quantity * data.price,
-            date: new Date(purchaseDate).toISOString(),
+      // Prices well above the recent norm are usually typos, so they are confirmed before recording.
+      const spikes = Object.keys(selectedItems)
+        .map(itemName => findPriceSpike(purchases || [], itemName, (selectedItems[itemName].price ?? 0) / getUnitFactor(itemName), priceSpikeThreshold))
+        .filter((spike): spike is PriceSpike => spike !== null);
+      if (spikes.length > 0) {
+        setPriceSpikes(spikes);
+        return;
+      }
+      recordPurchases();
+    } else if (activeTab === 'waste') {
+      const quantity = parseFloat(wasteQuantity);
+      if (wasteItem && quantity > 0) {
+        onAddWaste({
+          item: wasteItem,
+          quantity,
+          reason: wasteReason,
+          ...(wasteNote.trim() ? { note: wasteNote.trim() } : {}),
+          date: new Date(wasteDate).toISOString(),
+        });
+      }
+      resetWasteForm();
+    } else { // 'sale'
+      const date = new Date(saleDate).toISOString();
+      if (saleMode === 'lump') {
+        const amount = parseFloat(dailySaleAmount);
+        if(!isNaN(amount) && amount > 0) {
+          onAddSale({
+            item: LUMP_SUM_SALE_ITEM,
+            quantity: 1,
+            revenue: amount,
+            date,
           });
         }
-      });
-      setSelectedItems({});
-      setPurchaseDate(new Date().toISOString().split('T')[0]);
-    } else { // 'sale'
-      const amount = parseFloat(dailySaleAmount);
-      if(!isNaN(amount) && amount > 0) {
-        onAddSale({
-          item: 'Daily Sale',
-          quantity: 1,
-          revenue: amount,
-          date: new Date(saleDate).toISOString(),
+      } else if (saleMode === 'ticket') {
+        const product = products.find(p => p.id === ticketProductId);
+        const quantity = parseFloat(ticketQuantity);
+        const unitPrice = parseFloat(ticketPrice);
+        if (product && quantity > 0 && !isNaN(unitPrice) && unitPrice >= 0) {
+          onAddSale({
+            item: product.name,
+            productId: product.id,
+            quantity,
+            unitPrice,
+            revenue: quantity * unitPrice,
+            date,
+          });
+        }
+      } else { // 'tally'
+        products.forEach(product => {
+          const quantity = parseFloat(tallyEntries[product.id]?.quantity ?? '');
+          const unitPrice = getTallyUnitPrice(product);
+          if (quantity > 0 && !isNaN(unitPrice) && unitPrice >= 0) {
+            onAddSale({
+              item: product.name,
+              productId: product.id,
+              quantity,
+              unitPrice,
+              revenue: quantity * unitPrice,
+              date,
+            });
+          }
         });
-        setDailySaleAmount('');
-        setSaleDate(new Date().toISOString().split('T')[0]);
       }
+      resetSaleForm();
+      setSaleDate(new Date().toISOString().split('T')[0]);
     }
   };
 
+  // A blank price field on the tally sheet means the product's menu price.
+  const getTallyUnitPrice = (product: MenuProduct) => {
+    const price = tallyEntries[product.id]?.price;
+    return price ? parseFloat(price) : product.price;
+  };
+
+  const resetSaleForm = () => {
+    setDailySaleAmount('');
+    setTicketProductId('');
+    setTicketQuantity('1');
+    setTicketPrice('');
+    setTallyEntries({});
+  };
+
+  const resetWasteForm = () => {
+    setWasteItem('');
+    setWasteQuantity('');
+    setWasteReason('spoiled');
+    setWasteNote('');
+    setWasteDate(new Date().toISOString().split('T')[0]);
+  };
+
+  const wasteStock = stockedItems.find(group => group.item === wasteItem);
+
+  const isWasteValid = () => {
+    const quantity = parseFloat(wasteQuantity);
+    return !!wasteStock && quantity > 0 && quantity <= wasteStock.quantity;
+  };
+
+  const handleTicketProductChange = (productId: string) => {
+    setTicketProductId(productId);
+    const product = products.find(p => p.id === productId);
+    setTicketPrice(product ? String(product.price) : '');
+  };
+
+  const handleTallyChange = (productId: string, field: 'quantity' | 'price', value: string) => {
+    setTallyEntries(prev => ({
+      ...prev,
+      [productId]: { quantity: '', price: '', ...prev[productId], [field]: value },
+    }));
+  };
+
+  const tallyTotal = products.reduce((acc, product) => {
+    const quantity = parseFloat(tallyEntries[product.id]?.quantity ?? '') || 0;
+    return acc + quantity * (getTallyUnitPrice(product) || 0);
+  }, 0);
+
+  const isSaleValid = () => {
+    if (saleMode === 'lump') {
+      return !!dailySaleAmount && parseFloat(dailySaleAmount) > 0;
+    }
+    if (saleMode === 'ticket') {
+      return !!ticketProductId && parseFloat(ticketQuantity) > 0 && parseFloat(ticketPrice) >= 0;
+    }
+    return products.some(product => parseFloat(tallyEntries[product.id]?.quantity ?? '') > 0);
+  };
+
   const renderPurchaseList = () => {
     return purchasableItems.map((itemObj, index) => {
       const item = itemObj.item;
+      const units = getPurchaseUnits(findCatalogItem(catalog || [], item));
       return (
         <div key={index} className="flex items-center justify-between p-2 bg-gray-900 rounded-md gap-2">
           <div className="flex items-center gap-3 flex-grow">
@@ -124,10 +317,27 @@ const TransactionManager: React.FC<TransactionManagerProps> = ({ onAddPurchase,
               onChange={(e) => handleCheckboxChange(item, e.target.checked)}
               className="h-5 w-5 rounded bg-gray-700 border-gray-600 text-accent focus:ring-accent flex-shrink-0"
             />
-            <label htmlFor={`purchase-${item.replace(/\s+/g, '-')}`} className="text-secondary break-words">{item}</label>
+            <label htmlFor={`purchase-${item.replace(/\s+/g, '-')}`} className="text-secondary break-words">
+              {item}
+              {itemObj.unit && <span className="text-xs text-gray-400"> per {itemObj.unit}</span>}
+            </label>
           </div>
           {selectedItems[item] && (
             <div className="flex items-center gap-2 flex-shrink-0">
+                {units.length > 1 && (
+                  <select
+                    value={selectedItems[item].unit ?? units[0].name}
+                    onChange={(e) => handleUnitChange(item, e.target.value)}
+                    className="bg-gray-900 border border-sky-900 text-secondary text-sm rounded-lg focus:ring-primary focus:border-primary block p-2.5"
+                    aria-label="Unit"
+                  >
+                    {units.map(unit => (
+                      <option key={unit.name} value={unit.name}>
+                        {unit.factor === 1 ? unit.name : `${unit.name} (${Math.round(unit.factor * 1000) / 1000} ${units[0].name})`}
+                      </option>
+                    ))}
+                  </select>
+                )}
                 <div className="relative">
                     <span className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-400">
                     ₱
@@ -139,10 +349,18 @@ const TransactionManager: React.FC<TransactionManagerProps> = ({ onAddPurchase,
                         value={selectedItems[item].price ?? ''}
                         onChange={(e) => handlePriceChange(item, e.target.value)}
                         className="w-28 text-right pl-7"
-                        placeholder="Price/Unit"
+                        placeholder={`Price/${selectedItems[item].unit || itemObj.unit || 'Unit'}`}
                         aria-label="Price per unit"
                     />
                 </div>
+              <Input
+                type="date"
+                value={selectedItems[item].expiryDate ?? ''}
+                onChange={(e) => handleExpiryChange(item, e.target.value)}
+                className="w-36"
+                title="Expiry date (optional)"
+                aria-label="Expiry date"
+              />
               <Input
                 type="number"
                 min="1"
@@ -162,7 +380,8 @@ const TransactionManager: React.FC<TransactionManagerProps> = ({ onAddPurchase,
   const handleTabChange = (tab: TransactionType) => {
       setActiveTab(tab);
       setSelectedItems({});
-      setDailySaleAmount('');
+      resetSaleForm();
+      resetWasteForm();
       setPurchaseDate(new Date().toISOString().split('T')[0]);
       setSaleDate(new Date().toISOString().split('T')[0]);
   }
@@ -182,6 +401,12 @@ const TransactionManager: React.FC<TransactionManagerProps> = ({ onAddPurchase,
         >
           Add Sale
         </button>
+        <button
+          onClick={() => handleTabChange('waste')}
+          className={`px-4 py-2 text-lg font-semibold transition-colors duration-200 ${activeTab === 'waste' ? 'text-primary border-b-2 border-primary' : 'text-gray-400'}`}
+        >
+          Record Waste
+        </button>
       </div>
 
       <form onSubmit={handleSubmit}>
@@ -199,13 +424,51 @@ const TransactionManager: React.FC<TransactionManagerProps> = ({ onAddPurchase,
                     onChange={(e) => setPurchaseDate(e.target.value)}
                   />
               </div>
+              {suppliers.length > 0 && (
+                <div>
+                  <label htmlFor="purchase-supplier" className="block text-sm font-medium text-secondary mb-1">
+                    Supplier
+                  </label>
+                  <select
+                    id="purchase-supplier"
+                    value={purchaseSupplierId}
+                    onChange={(e) => setPurchaseSupplierId(e.target.value)}
+                    className="bg-gray-900 border border-sky-900 text-secondary text-sm rounded-lg focus:ring-primary focus:border-primary block w-full p-2.5"
+                  >
+                    <option value="">No supplier</option>
+                    {suppliers.map(supplier => (
+                      <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div className="space-y-3 max-h-60 overflow-y-auto pr-2">
-                {purchasableItems.length > 0 ? renderPurchaseList() : <p className="text-center text-gray-400 p-4">Add items to inventory first.</p>}
+                {purchasableItems.length > 0 ? renderPurchaseList() : <p className="text-center text-gray-400 p-4">Add ingredients to the catalog first.</p>}
               </div>
             </div>
-            <Button type="submit" className="w-full" disabled={Object.keys(selectedItems).length === 0}>
-              Record Purchase
-            </Button>
+            {priceSpikes.length > 0 ? (
+              <div className="p-3 rounded-lg border bg-yellow-900/40 border-yellow-700 space-y-2">
+                <p className="font-semibold text-yellow-300">
+                  {priceSpikes.length === 1 ? 'This price is' : 'These prices are'} more than {priceSpikeThreshold}% above the recent average:
+                </p>
+                <ul className="text-sm text-yellow-200 space-y-1">
+                  {priceSpikes.map(spike => (
+                    <li key={spike.item}>
+                      <span className="font-medium">{spike.item}</span>: ₱{spike.unitPrice.toFixed(2)} per unit
+                      <span className="text-yellow-400"> vs ₱{spike.average.toFixed(2)} average (+{spike.changePercent.toFixed(0)}%)</span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  <Button type="button" onClick={recordPurchases} className="bg-red-600 hover:bg-red-700 text-xs py-1 px-2">Record Anyway</Button>
+                  <Button type="button" onClick={() => setPriceSpikes([])} className="bg-gray-600 hover:bg-gray-700 text-xs py-1 px-2">Go Back</Button>
+                </div>
+              </div>
+            ) : (
+              <Button type="submit" className="w-full" disabled={Object.keys(selectedItems).length === 0}>
+                Record Purchase
+              </Button>
+            )}
           </>
         )}
         
@@ -223,29 +486,201 @@ const TransactionManager: React.FC<TransactionManagerProps> = ({ onAddPurchase,
                   onChange={(e) => setSaleDate(e.target.value)}
                 />
               </div>
+              <div className="flex space-x-1 bg-gray-900 p-1 rounded-lg">
+                {(Object.keys(saleModeLabels) as SaleMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => { setSaleMode(mode); resetSaleForm(); }}
+                    className={`flex-1 px-3 py-1 text-sm font-semibold rounded-md transition-colors duration-200 ${
+                      saleMode === mode ? 'bg-accent text-white' : 'text-gray-400 hover:bg-gray-800'
+                    }`}
+                  >
+                    {saleModeLabels[mode]}
+                  </button>
+                ))}
+              </div>
+
+              {saleMode === 'lump' && (
+                <div>
+                  <label htmlFor="daily-sale" className="block text-sm font-medium text-secondary mb-1">
+                    Total Daily Sale Amount
+                  </label>
+                  <div className="relative">
+                    <span className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-400">
+                      ₱
+                    </span>
+                    <Input
+                      id="daily-sale"
+                      type="number"
+                      value={dailySaleAmount}
+                      onChange={(e) => setDailySaleAmount(e.target.value)}
+                      placeholder="e.g., 5000"
+                      className="pl-7"
+                      min="0"
+                      step="0.01"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {saleMode !== 'lump' && products.length === 0 && (
+                <p className="text-center text-gray-400 p-4">Add menu products first.</p>
+              )}
+
+              {saleMode === 'ticket' && products.length > 0 && (
+                <div className="space-y-3">
+                  <select
+                    value={ticketProductId}
+                    onChange={(e) => handleTicketProductChange(e.target.value)}
+                    className="bg-gray-900 border border-sky-900 text-secondary text-sm rounded-lg focus:ring-primary focus:border-primary block w-full p-2.5"
+                    aria-label="Product"
+                  >
+                    <option value="">Select product</option>
+                    {products.map(product => (
+                      <option key={product.id} value={product.id}>{product.name}</option>
+                    ))}
+                  </select>
+                  <div className="flex items-center gap-2">
+                    <div className="relative flex-grow">
+                      <span className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-400">
+                        ₱
+                      </span>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={ticketPrice}
+                        onChange={(e) => setTicketPrice(e.target.value)}
+                        className="text-right pl-7"
+                        placeholder="Price/Unit"
+                        aria-label="Price per unit"
+                      />
+                    </div>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={ticketQuantity}
+                      onChange={(e) => setTicketQuantity(e.target.value)}
+                      className="w-20 text-right"
+                      placeholder="Qty"
+                      aria-label="Quantity"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {saleMode === 'tally' && products.length > 0 && (
+                <div className="space-y-3 max-h-60 overflow-y-auto pr-2">
+                  {products.map(product => (
+                    <div key={product.id} className="flex items-center justify-between p-2 bg-gray-900 rounded-md gap-2">
+                      <span className="text-secondary break-words flex-grow">{product.name}</span>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <div className="relative">
+                          <span className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-400">
+                            ₱
+                          </span>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={tallyEntries[product.id]?.price ?? ''}
+                            onChange={(e) => handleTallyChange(product.id, 'price', e.target.value)}
+                            className="w-28 text-right pl-7"
+                            placeholder={product.price.toFixed(2)}
+                            aria-label="Price per unit"
+                          />
+                        </div>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={tallyEntries[product.id]?.quantity ?? ''}
+                          onChange={(e) => handleTallyChange(product.id, 'quantity', e.target.value)}
+                          className="w-20 text-right"
+                          placeholder="Sold"
+                          aria-label="Units sold"
+                        />
+                      </div>
+                    </div>
+                  ))}
+                  <p className="text-right text-sm text-secondary">
+                    Total: <span className="font-semibold text-green-400">₱{tallyTotal.toFixed(2)}</span>
+                  </p>
+                </div>
+              )}
+            </div>
+            <Button type="submit" className="w-full" disabled={!isSaleValid()}>
+              {saleMode === 'lump' ? 'Record Daily Sale' : saleMode === 'ticket' ? 'Record Ticket' : 'Record Tally'}
+            </Button>
+          </>
+        )}
+
+        {activeTab === 'waste' && (
+          <>
+            <div className="space-y-4 mb-4">
               <div>
-                <label htmlFor="daily-sale" className="block text-sm font-medium text-secondary mb-1">
-                  Total Daily Sale Amount
+                <label htmlFor="waste-date" className="block text-sm font-medium text-secondary mb-1">
+                  Date
                 </label>
-                <div className="relative">
-                  <span className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-400">
-                    ₱
-                  </span>
+                <Input
+                  id="waste-date"
+                  type="date"
+                  value={wasteDate}
+                  onChange={(e) => setWasteDate(e.target.value)}
+                />
+              </div>
+              {stockedItems.length === 0 ? (
+                <p className="text-center text-gray-400 p-4">Nothing is in stock.</p>
+              ) : (
+                <>
+                  <select
+                    value={wasteItem}
+                    onChange={(e) => setWasteItem(e.target.value)}
+                    className="bg-gray-900 border border-sky-900 text-secondary text-sm rounded-lg focus:ring-primary focus:border-primary block w-full p-2.5"
+                    aria-label="Item"
+                  >
+                    <option value="">Select item</option>
+                    {stockedItems.map(group => (
+                      <option key={group.item} value={group.item}>
+                        {group.item} ({Math.round(group.quantity * 1000) / 1000}{getBaseUnit(catalog || [], group.item) ? ` ${getBaseUnit(catalog || [], group.item)}` : ''} on hand)
+                      </option>
+                    ))}
+                  </select>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={wasteReason}
+                      onChange={(e) => setWasteReason(e.target.value as WasteReason)}
+                      className="bg-gray-900 border border-sky-900 text-secondary text-sm rounded-lg focus:ring-primary focus:border-primary block w-full p-2.5"
+                      aria-label="Reason"
+                    >
+                      {(Object.keys(WASTE_REASON_LABELS) as WasteReason[]).map(reason => (
+                        <option key={reason} value={reason}>{WASTE_REASON_LABELS[reason]}</option>
+                      ))}
+                    </select>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={wasteQuantity}
+                      onChange={(e) => setWasteQuantity(e.target.value)}
+                      className="w-28 text-right"
+                      placeholder={getBaseUnit(catalog || [], wasteItem) || 'Qty'}
+                      aria-label="Quantity"
+                    />
+                  </div>
                   <Input
-                    id="daily-sale"
-                    type="number"
-                    value={dailySaleAmount}
-                    onChange={(e) => setDailySaleAmount(e.target.value)}
-                    placeholder="e.g., 5000"
-                    className="pl-7"
-                    min="0"
-                    step="0.01"
+                    value={wasteNote}
+                    onChange={(e) => setWasteNote(e.target.value)}
+                    placeholder="Note (optional), e.g. left out overnight"
                   />
-                </div>
-              </div>
+                  {wasteStock && parseFloat(wasteQuantity) > wasteStock.quantity && (
+                    <p className="text-sm text-red-400">Only {Math.round(wasteStock.quantity * 1000) / 1000} {getBaseUnit(catalog || [], wasteStock.item)} in stock.</p>
+                  )}
+                </>
+              )}
             </div>
-            <Button type="submit" className="w-full" disabled={!dailySaleAmount || parseFloat(dailySaleAmount) <= 0}>
-              Record Daily Sale
+            <Button type="submit" className="w-full" disabled={!isWasteValid()}>
+              Record Waste
             </Button>
           </>
         )}
@@ -1,9 +1,52 @@
-export const CONSTANT_INVENTORY: { item: string, costPerUnit: number }[] = [
-  { item: "Quickmelt Cheese", costPerUnit: 725 },
-  { item: "Spaghetti Sauce", costPerUnit: 94 },
-  { item: "6 inch square Dough", costPerUnit: 9 },
-  { item: "Ham", costPerUnit: 70 },
-  { item: "Pepperoni", costPerUnit: 80 },
-  { item: "Bacon", costPerUnit: 90 },
-  { item: "Mantou Breadsticks", costPerUnit: 25 },
+import { CatalogItem, ExpenseCategory, ExpenseSchedule, Settings, WasteReason } from './types';
+
+// The ingredient catalog a new install starts with. After that the catalog in AppData is
+// what the app uses, and these are never read again.
+export const CATALOG_SEED: Omit<CatalogItem, 'id'>[] = [
+  { name: "Quickmelt Cheese", category: 'Dairy', unit: 'kg', defaultCost: 725 },
+  { name: "Spaghetti Sauce", category: 'Sauces', unit: 'pouch', defaultCost: 94 },
+  { name: "6 inch square Dough", category: 'Dough', unit: 'pc', defaultCost: 9 },
+  { name: "Ham", category: 'Meats', unit: 'pack', defaultCost: 70 },
+  { name: "Pepperoni", category: 'Meats', unit: 'pack', defaultCost: 80 },
+  { name: "Bacon", category: 'Meats', unit: 'pack', defaultCost: 90 },
+  { name: "Mantou Breadsticks", category: 'Sides', unit: 'pack', defaultCost: 25 },
 ];
+
+// Item name used for sales recorded as a single daily total rather than per product.
+export const LUMP_SUM_SALE_ITEM = 'Daily Sale';
+
+export const DEFAULT_SETTINGS: Settings = {
+  costingMethod: 'fifo',
+  actor: '',
+  priceSpikeThreshold: 25,
+  targetMargin: 70,
+};
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  rent: 'Rent',
+  utilities: 'Utilities',
+  gas: 'Gas',
+  permits: 'Permits',
+  packaging: 'Packaging',
+  other: 'Other',
+};
+
+export const EXPENSE_SCHEDULE_LABELS: Record<ExpenseSchedule, string> = {
+  once: 'One-off',
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+export const WASTE_REASON_LABELS: Record<WasteReason, string> = {
+  expired: 'Expired',
+  spoiled: 'Spoiled',
+  dropped: 'Dropped',
+  other: 'Other',
+};
+
+// Lots expiring within this many days are listed as expiring soon.
+export const EXPIRY_WARNING_DAYS = 3;
+
+// How many of an ingredient's latest purchases its rolling average unit price is taken over.
+export const PRICE_AVERAGE_WINDOW = 5;
@@ -0,0 +1,96 @@
+import { useState, useCallback } from 'react';
+import { AppData } from '../types';
+import { AppAction, applyAction, describeAction } from '../utils/actions';
+import { StoreChanges, captureChanges, replayChanges } from '../utils/history';
+import { withAuditEntries } from '../utils/audit';
+import { generateId } from '../utils/id';
+import { SetAppData } from './useAppStorage';
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  at: string; // ISO timestamp
+  changes: StoreChanges;
+}
+
+// Older entries are dropped; history lasts only as long as the page is open.
+const MAX_HISTORY = 50;
+
+export interface ActionHistory {
+  dispatch: (action: AppAction) => void;
+  undo: () => void;
+  redo: () => void;
+  /** Reverts one earlier action, keeping everything done after it. */
+  revert: (entryId: string) => void;
+  past: HistoryEntry[]; // oldest first
+  future: HistoryEntry[]; // next to redo first
+}
+
+/**
+ * Runs actions against `AppData` and keeps undo/redo stacks of what each one changed. Every
+ * change, including undoing and redoing, is also written to the persistent audit log.
+ * Relies on `setAppData` applying updaters immediately and exactly once, as `useAppStorage` does.
+ */
+export function useActionHistory(setAppData: SetAppData): ActionHistory {
+  const [past, setPast] = useState<HistoryEntry[]>([]);
+  const [future, setFuture] = useState<HistoryEntry[]>([]);
+
+  const record = useCallback((label: string, before: AppData, after: AppData) => {
+    const changes = captureChanges(before, after);
+    if (Object.keys(changes).length === 0) {
+      return null;
+    }
+    return { id: generateId('action'), label, at: new Date().toISOString(), changes };
+  }, []);
+
+  const dispatch = useCallback((action: AppAction) => {
+    let entry = null as HistoryEntry | null;
+    setAppData(prevData => {
+      const nextData = applyAction(prevData, action);
+      const label = describeAction(action, prevData);
+      entry = record(label, prevData, nextData);
+      return withAuditEntries(prevData, nextData, label);
+    });
+    if (entry) {
+      const newEntry = entry;
+      setPast(prev => [...prev, newEntry].slice(-MAX_HISTORY));
+      setFuture([]);
+    }
+  }, [record, setAppData]);
+
+  const undo = useCallback(() => {
+    const entry = past[past.length - 1];
+    if (!entry) return;
+    setAppData(prevData => withAuditEntries(prevData, replayChanges(prevData, entry.changes, 'undo'), `Undid: ${entry.label}`));
+    setPast(prev => prev.slice(0, -1));
+    setFuture(prev => [entry, ...prev]);
+  }, [past, setAppData]);
+
+  const redo = useCallback(() => {
+    const entry = future[0];
+    if (!entry) return;
+    setAppData(prevData => withAuditEntries(prevData, replayChanges(prevData, entry.changes, 'redo'), `Redid: ${entry.label}`));
+    setFuture(prev => prev.slice(1));
+    setPast(prev => [...prev, entry].slice(-MAX_HISTORY));
+  }, [future, setAppData]);
+
+  // Reverting is itself a new action, so it can be undone like any other.
+  const revert = useCallback((entryId: string) => {
+    const target = past.find(entry => entry.id === entryId);
+    if (!target) return;
+    let entry = null as HistoryEntry | null;
+    setAppData(prevData => {
+      const nextData = replayChanges(prevData, target.changes, 'undo');
+      const label = `Reverted: ${target.label}`;
+      entry = record(label, prevData, nextData);
+      return withAuditEntries(prevData, nextData, label);
+    });
+    if (entry) {
+      const newEntry = entry;
+      setPast(prev => [...prev.filter(e => e.id !== entryId), newEntry].slice(-MAX_HISTORY));
+      setFuture([]);
+    }
+  }, [past, record, setAppData]);
+
+  return { dispatch, undo, redo, revert, past, future };
+}
@@ -0,0 +1,183 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AppData } from '../types';
+import {
+  STORE_KEYS,
+  StorageAdapter,
+  StorageEstimate,
+  StoreKey,
+  createDefaultStorageAdapter,
+  readStoredData,
+  removeLegacyData,
+} from '../utils/storage';
+import { SyncChannel, createSyncChannel, mergeStoreValues, withStorageLock } from '../utils/sync';
+
+export interface StorageStatus {
+  isLoaded: boolean;
+  backend: StorageAdapter['name'];
+  loadError: string | null;
+  writeError: string | null;
+  estimate: StorageEstimate | null;
+}
+
+export type SetAppData = (value: AppData | ((prevData: AppData) => AppData)) => void;
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Holds `AppData` and persists it through a storage adapter, one store per top-level field.
+ *
+ * The current value lives in a ref rather than React state so that storage work, which runs
+ * asynchronously, always sees (and merges into) the latest value. Every store carries a revision
+ * number: a write whose revision is behind storage means another tab wrote first, so the two
+ * versions are merged instead of one overwriting the other. Other tabs' writes are picked up
+ * live through a sync channel.
+ */
+export function useAppStorage(
+  initialValue: AppData,
+  migrate: (storedValue: unknown) => AppData,
+  adapter?: StorageAdapter
+): [AppData, SetAppData, StorageStatus] {
+  const [storage] = useState<StorageAdapter>(() => adapter || createDefaultStorageAdapter());
+  const [, setRenderCount] = useState(0);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [writeError, setWriteError] = useState<string | null>(null);
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+
+  const data = useRef<AppData>(initialValue);
+  // What storage held for each store when this tab last read or wrote it, and at which revision.
+  const synced = useRef<Partial<Record<StoreKey, unknown>>>({});
+  const revisions = useRef<Partial<Record<StoreKey, number>>>({});
+  const queue = useRef<Promise<void>>(Promise.resolve());
+  const isFlushQueued = useRef(false);
+  const canWrite = useRef(false);
+  const removeLegacyAfterWrite = useRef(false);
+  const channel = useRef<SyncChannel | null>(null);
+
+  const rerender = useCallback(() => setRenderCount(count => count + 1), []);
+
+  const replaceStore = useCallback((key: StoreKey, value: unknown) => {
+    data.current = { ...data.current, [key]: value };
+    rerender();
+  }, [rerender]);
+
+  // Storage work runs one task at a time, and never at the same time as another tab's.
+  const enqueue = useCallback((task: () => Promise<void>) => {
+    const next = queue.current.then(() => withStorageLock(task));
+    queue.current = next.catch(() => undefined);
+    return next;
+  }, []);
+
+  // Writes every store that differs from what was last synced, merging with other tabs' writes.
+  const flush = useCallback(() => {
+    if (!canWrite.current || isFlushQueued.current) {
+      return;
+    }
+    isFlushQueued.current = true;
+    enqueue(async () => {
+      isFlushQueued.current = false;
+      const written = new Set<StoreKey>();
+      try {
+        // Keep going until nothing changed while we were writing.
+        let changed = STORE_KEYS.filter(key => data.current[key] !== synced.current[key]);
+        while (changed.length > 0) {
+          for (const key of changed) {
+            const storedRevision = await storage.readRevision(key);
+            let value: unknown = data.current[key];
+            if (storedRevision !== (revisions.current[key] || 0)) {
+              const remote = await storage.read(key);
+              value = mergeStoreValues(key, synced.current[key], data.current[key], remote);
+              if (value !== data.current[key]) replaceStore(key, value);
+            }
+            await storage.write(key, value, storedRevision + 1);
+            synced.current[key] = value;
+            revisions.current[key] = storedRevision + 1;
+            written.add(key);
+          }
+          changed = STORE_KEYS.filter(key => data.current[key] !== synced.current[key]);
+        }
+        if (removeLegacyAfterWrite.current) {
+          removeLegacyData();
+          removeLegacyAfterWrite.current = false;
+        }
+        setWriteError(null);
+      } catch (error) {
+        console.error(error);
+        // Unsynced stores are retried with the next change.
+        setWriteError(describeError(error));
+      }
+      if (written.size > 0) {
+        channel.current?.notify(Array.from(written));
+        setEstimate(await storage.estimate());
+      }
+    });
+  }, [enqueue, replaceStore, storage]);
+
+  // Another tab wrote these stores: bring them in, keeping any changes this tab has not saved yet.
+  const pull = useCallback((keys: StoreKey[]) => {
+    enqueue(async () => {
+      if (!canWrite.current) return;
+      let hasUnsavedChanges = false;
+      for (const key of keys.filter(k => STORE_KEYS.includes(k))) {
+        const storedRevision = await storage.readRevision(key);
+        if (storedRevision === (revisions.current[key] || 0)) continue;
+        const remote = await storage.read(key);
+        const merged = mergeStoreValues(key, synced.current[key], data.current[key], remote);
+        synced.current[key] = remote;
+        revisions.current[key] = storedRevision;
+        replaceStore(key, merged);
+        hasUnsavedChanges = hasUnsavedChanges || merged !== remote;
+      }
+      if (hasUnsavedChanges) flush();
+    }).catch(error => console.error(error));
+  }, [enqueue, flush, replaceStore, storage]);
+
+  const setAppData: SetAppData = useCallback((value) => {
+    const next = value instanceof Function ? value(data.current) : value;
+    if (next === data.current) {
+      return;
+    }
+    data.current = next;
+    rerender();
+    flush();
+  }, [flush, rerender]);
+
+  useEffect(() => {
+    let cancelled = false;
+    enqueue(async () => {
+      if (cancelled) return;
+      const stored = await readStoredData(storage);
+      if (stored) {
+        const loaded = { ...initialValue, ...migrate(stored.data) };
+        // Stores that came back from migration unchanged do not need rewriting.
+        STORE_KEYS.forEach(key => {
+          revisions.current[key] = stored.revisions[key] || 0;
+          if (!stored.fromLegacyKey && JSON.stringify(stored.data[key]) === JSON.stringify(loaded[key])) {
+            synced.current[key] = loaded[key];
+          }
+        });
+        removeLegacyAfterWrite.current = stored.fromLegacyKey;
+        data.current = loaded;
+      }
+      canWrite.current = true;
+      setIsLoaded(true);
+      setEstimate(await storage.estimate());
+    })
+      .then(() => flush())
+      .catch(error => {
+        console.error(error);
+        // Never fall back to empty data here: the first write would overwrite what is stored.
+        if (!cancelled) setLoadError(describeError(error));
+      });
+
+    channel.current = createSyncChannel(pull);
+    return () => {
+      cancelled = true;
+      channel.current?.close();
+      channel.current = null;
+    };
+    // Loading happens once per adapter; later changes to the arguments are ignored.
+  }, [storage]);
+
+  return [data.current, setAppData, { isLoaded, backend: storage.name, loadError, writeError, estimate }];
+}
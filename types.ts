@@ -5,13 +5,39 @@ export interface InventoryItem {
   quantity: number;
   costPerUnit: number;
   date?: string;
+  purchaseId?: string;
+  expiryDate?: string; // last usable calendar day (YYYY-MM-DD)
 }
 
 export interface Purchase {
+  id: string;
   item: string;
   quantity: number;
   cost: number;
   date?: string;
+  lotId?: string;
+  expiryDate?: string; // calendar day (YYYY-MM-DD), given to the lot the purchase creates
+  supplierId?: string;
+  purchaseUnit?: PurchaseUnit; // what it was bought in, when not the base unit; quantity is always in base units
+}
+
+export interface PurchaseUnit {
+  name: string; // e.g. "block"
+  factor: number; // base units in one of these, e.g. 1900 (g)
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact?: string; // phone number, stall location, etc.
+  notes?: string;
+}
+
+export interface StockConsumption {
+  lotId: string;
+  item: string;
+  quantity: number;
+  costPerUnit: number;
 }
 
 export interface Sale {
@@ -20,11 +46,110 @@ export interface Sale {
   quantity: number;
   revenue: number;
   date?: string;
+  unitPrice?: number;
+  productId?: string;
+  consumption?: StockConsumption[];
 }
 
+export interface RecipeIngredient {
+  item: string;
+  quantity: number;
+}
+
+export interface MenuProduct {
+  id: string;
+  name: string;
+  price: number;
+  recipe: RecipeIngredient[];
+}
+
+export type ExpenseCategory = 'rent' | 'utilities' | 'gas' | 'permits' | 'packaging' | 'other';
+
+export type ExpenseSchedule = 'once' | 'daily' | 'weekly' | 'monthly';
+
 export interface Expense {
+  id: string;
   name: string;
   amount: number;
+  category: ExpenseCategory;
+  schedule: ExpenseSchedule;
+  date: string; // when a one-off expense was incurred, or when a recurring one takes effect
+  effectiveTo?: string; // last day a recurring expense applies; open-ended when absent
+}
+
+export type WasteReason = 'expired' | 'spoiled' | 'dropped' | 'other';
+
+export interface WasteRecord {
+  id: string;
+  item: string;
+  quantity: number;
+  reason: WasteReason;
+  note?: string;
+  date: string;
+  lotId?: string; // set when one particular lot was thrown out, e.g. because it expired
+  consumption?: StockConsumption[]; // lots the quantity was taken from, and at what cost
+}
+
+export type CostingMethod = 'fifo' | 'average';
+
+export interface ReorderLevel {
+  reorderPoint: number; // restock once the quantity on hand falls to this
+  parLevel: number; // the quantity to restock up to
+}
+
+export interface CatalogItem {
+  id: string;
+  name: string;
+  category: string;
+  unit: string; // base unit that every quantity and unit cost of this ingredient is counted in, e.g. "g"
+  purchaseUnits?: PurchaseUnit[]; // larger units it is also bought in, e.g. a 1900 g block
+  defaultCost: number; // cost per base unit offered when recording a purchase
+  archived?: boolean; // no longer bought or used in new recipes, but kept for its history
+  reorderLevel?: ReorderLevel;
+}
+
+export interface Settings {
+  costingMethod: CostingMethod;
+  actor: string; // who is using the app on this device, recorded in the audit log
+  priceSpikeThreshold: number; // percent above the recent average unit price that makes a purchase ask for confirmation
+  targetMargin: number; // percent of a menu price that should be left after ingredient costs
+}
+
+export interface InventorySnapshot {
+  id: string;
+  day: string; // local calendar day (YYYY-MM-DD) whose closing value this is
+  value: number;
+  takenAt: string;
+}
+
+export interface StocktakeLine {
+  item: string;
+  expected: number;
+  counted: number;
+  costPerUnit: number;
+}
+
+export interface Stocktake {
+  id: string;
+  date: string;
+  lines: StocktakeLine[];
+}
+
+export type AuditEntity = 'sale' | 'purchase' | 'inventory' | 'expense';
+
+export type AuditOperation = 'create' | 'update' | 'delete';
+
+export interface AuditEntry {
+  id: string;
+  at: string; // ISO timestamp
+  actor: string;
+  entity: AuditEntity;
+  operation: AuditOperation;
+  recordId: string;
+  // Whole records for a create or delete; for an update, only the fields that changed plus the record's name.
+  before?: Partial<Sale | Purchase | InventoryItem | Expense>; // absent for a create
+  after?: Partial<Sale | Purchase | InventoryItem | Expense>; // absent for a delete
+  cause: string; // the change that produced this entry, e.g. "Edited sale of Pepperoni Pizza"
 }
 
 export interface Analysis {
@@ -33,15 +158,29 @@ export interface Analysis {
   inventoryValue: number;
   rent: number;
   otherExpenses: number;
+  expensesByCategory: Partial<Record<ExpenseCategory, number>>;
+  openingInventory: number;
+  closingInventory: number;
   cogs: number;
+  cogsEstimated: boolean;
   grossProfit: number;
   netProfit: number;
+  wasteCost: number; // already part of COGS, since wasted stock is missing from closing inventory
+  wasteByReason: Partial<Record<WasteReason, number>>;
 }
 
 export interface AppData {
+  schemaVersion: number;
   inventory: InventoryItem[];
   purchases: Purchase[];
   sales: Sale[];
-  rent: number;
-  otherExpenses: Expense[];
+  expenses: Expense[];
+  products: MenuProduct[];
+  suppliers: Supplier[];
+  catalog: CatalogItem[]; // in display order
+  inventorySnapshots: InventorySnapshot[];
+  stocktakes: Stocktake[];
+  waste: WasteRecord[];
+  auditLog: AuditEntry[];
+  settings: Settings;
 }
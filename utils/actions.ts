@@ -0,0 +1,505 @@
+import { AppData, CatalogItem, Expense, InventoryItem, MenuProduct, Purchase, ReorderLevel, Sale, Settings, StockConsumption, Stocktake, Supplier, WasteRecord } from '../types';
+import { DEFAULT_SETTINGS, WASTE_REASON_LABELS } from '../constants';
+import { consumeLotStock, consumeSaleStock, consumeStock, getConsumptionCost, getInventoryValue, getUnitCost, isSameItem, resolveItemName, restoreStock, setStockLevel } from './inventory';
+import { CsvImport } from './csv';
+import { findCatalogItem, moveCatalogItem, withCatalogEntries } from './catalog';
+import { convertBaseUnit } from './units';
+import { StockMovement, restateSnapshots } from './snapshots';
+
+/**
+ * Every change a user can make to `AppData`. Actions carry any ids they create, so applying
+ * one is a pure function of the data and the action.
+ */
+export type AppAction =
+  | { type: 'addPurchase'; purchase: Purchase }
+  | { type: 'updatePurchase'; purchase: Purchase }
+  | { type: 'deletePurchase'; purchaseId: string }
+  | { type: 'addSale'; sale: Sale }
+  | { type: 'updateSale'; sale: Sale }
+  | { type: 'deleteSale'; saleId: string }
+  | { type: 'addProduct'; product: MenuProduct }
+  | { type: 'updateProduct'; product: MenuProduct }
+  | { type: 'deleteProduct'; productId: string }
+  | { type: 'addSupplier'; supplier: Supplier }
+  | { type: 'updateSupplier'; supplier: Supplier }
+  | { type: 'deleteSupplier'; supplierId: string }
+  | { type: 'addCatalogItem'; catalogItem: CatalogItem }
+  | { type: 'updateCatalogItem'; catalogItem: CatalogItem } // also archives and restores
+  | { type: 'moveCatalogItem'; itemId: string; direction: -1 | 1 }
+  | { type: 'changeBaseUnit'; itemId: string; unit: string; factor: number } // factor: new units in one old unit
+  | { type: 'addInventory'; item: InventoryItem }
+  | { type: 'updateInventoryItem'; item: InventoryItem }
+  | { type: 'deleteInventoryItem'; itemId: string }
+  | { type: 'addExpense'; expense: Expense }
+  | { type: 'updateExpense'; expense: Expense }
+  | { type: 'deleteExpense'; expenseId: string }
+  | { type: 'updateSettings'; settings: Partial<Settings> }
+  | { type: 'setReorderLevel'; item: string; level: ReorderLevel | null } // null clears it
+  | { type: 'saveStocktake'; stocktake: Stocktake }
+  | { type: 'addWaste'; waste: WasteRecord }
+  | { type: 'importCsv'; csvImport: CsvImport; ids: string[] } // ids[i] is given to csvImport.records[i]
+  | { type: 'replaceData'; data: AppData };
+
+const getCostingMethod = (data: AppData) => data.settings?.costingMethod || DEFAULT_SETTINGS.costingMethod;
+
+const renameItem = <T extends { item: string }>(records: T[], from: string, to: string): T[] =>
+  records.map(record => (record && typeof record.item === 'string' && isSameItem(record.item, from) ? { ...record, item: to } : record));
+
+const reduceAction = (prevData: AppData, action: AppAction): AppData => {
+  switch (action.type) {
+    case 'addPurchase': {
+      // Each purchase creates its own inventory lot, linked both ways.
+      const purchase: Purchase = { ...action.purchase, item: resolveItemName(prevData.inventory, action.purchase.item) };
+      const lot: InventoryItem = {
+        id: purchase.lotId!,
+        purchaseId: purchase.id,
+        item: purchase.item,
+        quantity: purchase.quantity,
+        costPerUnit: getUnitCost(purchase),
+        date: purchase.date,
+      };
+      return {
+        ...prevData,
+        purchases: [...prevData.purchases, purchase],
+        inventory: [...prevData.inventory, purchase.expiryDate ? { ...lot, expiryDate: purchase.expiryDate } : lot],
+        catalog: withCatalogEntries(prevData.catalog || [], [{ id: `catalog-${purchase.id}`, name: purchase.item, defaultCost: lot.costPerUnit }]),
+      };
+    }
+
+    // Editing a purchase carries through to its lot: the lot keeps whatever has already
+    // been used, so only the change in purchased quantity is applied to it.
+    case 'updatePurchase': {
+      const previousPurchase = prevData.purchases.find(purchase => purchase.id === action.purchase.id);
+      const purchaseToSave: Purchase = { ...action.purchase, item: resolveItemName(prevData.inventory, action.purchase.item) };
+      const quantityChange = purchaseToSave.quantity - (previousPurchase?.quantity || 0);
+      return {
+        ...prevData,
+        purchases: prevData.purchases.map(purchase => purchase.id === purchaseToSave.id ? purchaseToSave : purchase),
+        inventory: prevData.inventory.map(item =>
+          item.id === purchaseToSave.lotId
+            ? {
+                ...item,
+                item: purchaseToSave.item,
+                quantity: Math.max(0, (parseFloat(String(item.quantity)) || 0) + quantityChange),
+                costPerUnit: getUnitCost(purchaseToSave),
+                date: purchaseToSave.date,
+                expiryDate: purchaseToSave.expiryDate,
+              }
+            : item
+        ),
+      };
+    }
+
+    case 'deletePurchase':
+      return {
+        ...prevData,
+        purchases: prevData.purchases.filter(purchase => purchase.id !== action.purchaseId),
+        inventory: prevData.inventory.filter(item => item.purchaseId !== action.purchaseId),
+      };
+
+    case 'addSale': {
+      const result = consumeSaleStock(prevData.inventory, prevData.products || [], action.sale, getCostingMethod(prevData));
+      return {
+        ...prevData,
+        inventory: result.inventory,
+        sales: [...prevData.sales, result.sale],
+      };
+    }
+
+    case 'updateSale': {
+      const updatedSale = action.sale;
+      const previousSale = prevData.sales.find(sale => sale.id === updatedSale.id);
+      const product = (prevData.products || []).find(p => p.id === updatedSale.productId);
+      // Without its product we could not re-deduct the recipe, so leave the stock as it was.
+      const result = updatedSale.productId && !product
+        ? { inventory: prevData.inventory, sale: { ...updatedSale, consumption: previousSale?.consumption } }
+        : consumeSaleStock(restoreStock(prevData.inventory, previousSale?.consumption), prevData.products || [], updatedSale, getCostingMethod(prevData));
+      return {
+        ...prevData,
+        inventory: result.inventory,
+        sales: prevData.sales.map(sale => sale.id === updatedSale.id ? result.sale : sale),
+      };
+    }
+
+    case 'deleteSale': {
+      const deletedSale = prevData.sales.find(sale => sale.id === action.saleId);
+      return {
+        ...prevData,
+        inventory: restoreStock(prevData.inventory, deletedSale?.consumption),
+        sales: prevData.sales.filter(sale => sale.id !== action.saleId),
+      };
+    }
+
+    case 'addProduct':
+      return { ...prevData, products: [...(prevData.products || []), action.product] };
+
+    case 'updateProduct':
+      return {
+        ...prevData,
+        products: (prevData.products || []).map(product => product.id === action.product.id ? action.product : product),
+      };
+
+    case 'deleteProduct':
+      return { ...prevData, products: (prevData.products || []).filter(product => product.id !== action.productId) };
+
+    case 'addCatalogItem':
+      return { ...prevData, catalog: [...(prevData.catalog || []), action.catalogItem] };
+
+    // Lots, purchases, the stock used by sales and waste, stocktakes and recipes refer to
+    // ingredients by name, so a rename carries through to them.
+    case 'updateCatalogItem': {
+      const updated = action.catalogItem;
+      const previous = (prevData.catalog || []).find(entry => entry.id === updated.id);
+      const catalog = (prevData.catalog || []).map(entry => entry.id === updated.id ? updated : entry);
+      if (!previous || previous.name === updated.name) {
+        return { ...prevData, catalog };
+      }
+      return {
+        ...prevData,
+        catalog,
+        inventory: renameItem(prevData.inventory, previous.name, updated.name),
+        purchases: renameItem(prevData.purchases, previous.name, updated.name),
+        sales: prevData.sales.map(sale => (sale.consumption
+          ? { ...sale, consumption: renameItem(sale.consumption, previous.name, updated.name) }
+          : sale)),
+        waste: renameItem(prevData.waste || [], previous.name, updated.name).map(record => (record.consumption
+          ? { ...record, consumption: renameItem(record.consumption, previous.name, updated.name) }
+          : record)),
+        stocktakes: (prevData.stocktakes || []).map(stocktake => ({
+          ...stocktake,
+          lines: renameItem(stocktake.lines || [], previous.name, updated.name),
+        })),
+        products: (prevData.products || []).map(product => ({
+          ...product,
+          recipe: renameItem(product.recipe || [], previous.name, updated.name),
+        })),
+      };
+    }
+
+    case 'moveCatalogItem':
+      return { ...prevData, catalog: moveCatalogItem(prevData.catalog || [], action.itemId, action.direction) };
+
+    case 'changeBaseUnit':
+      return convertBaseUnit(prevData, action.itemId, action.unit, action.factor);
+
+    case 'addSupplier':
+      return { ...prevData, suppliers: [...(prevData.suppliers || []), action.supplier] };
+
+    case 'updateSupplier':
+      return {
+        ...prevData,
+        suppliers: (prevData.suppliers || []).map(supplier => supplier.id === action.supplier.id ? action.supplier : supplier),
+      };
+
+    // Purchases keep the id of a deleted supplier, like sales keep the id of a deleted product.
+    case 'deleteSupplier':
+      return { ...prevData, suppliers: (prevData.suppliers || []).filter(supplier => supplier.id !== action.supplierId) };
+
+    // Stock added by hand for an ingredient that already exists becomes another lot of it,
+    // exactly like a purchase does.
+    case 'addInventory': {
+      const lot: InventoryItem = { ...action.item, item: resolveItemName(prevData.inventory, action.item.item) };
+      return {
+        ...prevData,
+        inventory: [...prevData.inventory, lot],
+        catalog: withCatalogEntries(prevData.catalog || [], [{ id: `catalog-${lot.id}`, name: lot.item, defaultCost: parseFloat(String(lot.costPerUnit)) || 0 }]),
+      };
+    }
+
+    // A lot's unit cost and date are also what its purchase was recorded with, so keep them in step.
+    case 'updateInventoryItem': {
+      const updatedItem = action.item;
+      return {
+        ...prevData,
+        inventory: prevData.inventory.map(item => item.id === updatedItem.id ? updatedItem : item),
+        purchases: prevData.purchases.map(purchase =>
+          purchase.id === updatedItem.purchaseId
+            ? {
+                ...purchase,
+                cost: purchase.quantity * (parseFloat(String(updatedItem.costPerUnit)) || 0),
+                date: updatedItem.date,
+                expiryDate: updatedItem.expiryDate,
+              }
+            : purchase
+        ),
+      };
+    }
+
+    // Deleting a lot that came from a purchase deletes that purchase as well.
+    case 'deleteInventoryItem':
+      return {
+        ...prevData,
+        inventory: prevData.inventory.filter(item => item.id !== action.itemId),
+        purchases: prevData.purchases.filter(purchase => purchase.lotId !== action.itemId),
+      };
+
+    case 'addExpense':
+      return { ...prevData, expenses: [...prevData.expenses, action.expense] };
+
+    case 'updateExpense':
+      return {
+        ...prevData,
+        expenses: prevData.expenses.map(expense => expense.id === action.expense.id ? action.expense : expense),
+      };
+
+    case 'deleteExpense':
+      return { ...prevData, expenses: prevData.expenses.filter(expense => expense.id !== action.expenseId) };
+
+    case 'updateSettings':
+      return { ...prevData, settings: { ...DEFAULT_SETTINGS, ...prevData.settings, ...action.settings } };
+
+    // Only catalog ingredients have reorder levels; every stocked ingredient is added to the catalog.
+    case 'setReorderLevel': {
+      const entry = findCatalogItem(prevData.catalog || [], action.item);
+      if (!entry) {
+        return prevData;
+      }
+      const { reorderLevel: _previousLevel, ...rest } = entry;
+      const updated: CatalogItem = action.level ? { ...rest, reorderLevel: action.level } : rest;
+      return { ...prevData, catalog: prevData.catalog.map(item => item.id === entry.id ? updated : item) };
+    }
+
+    // Counted quantities replace the expected ones, and the record keeps both for the variance report.
+    case 'saveStocktake': {
+      const method = getCostingMethod(prevData);
+      const inventory = action.stocktake.lines.reduce(
+        (acc, line) => setStockLevel(acc, line.item, line.counted, method),
+        prevData.inventory
+      );
+      return {
+        ...prevData,
+        inventory,
+        stocktakes: [...(prevData.stocktakes || []), action.stocktake],
+      };
+    }
+
+    // Waste of a particular lot (an expired one) comes out of that lot; otherwise it is taken
+    // like any other use of stock, per the costing method.
+    case 'addWaste': {
+      const { waste } = action;
+      const result = waste.lotId
+        ? consumeLotStock(prevData.inventory, waste.lotId, waste.quantity)
+        : consumeStock(prevData.inventory, waste.item, waste.quantity, getCostingMethod(prevData));
+      return {
+        ...prevData,
+        inventory: result.inventory,
+        waste: [...(prevData.waste || []), { ...waste, consumption: result.consumption }],
+      };
+    }
+
+    // Spreadsheet rows are history: imported sales and purchases are recorded as-is and do not move stock.
+    case 'importCsv': {
+      const { csvImport, ids } = action;
+      switch (csvImport.collection) {
+        case 'sales':
+          return { ...prevData, sales: [...prevData.sales, ...csvImport.records.map((sale, i) => ({ ...sale, id: ids[i] }))] };
+        case 'purchases': {
+          const purchases = csvImport.records.map((purchase, i) => ({ ...purchase, id: ids[i] }));
+          return {
+            ...prevData,
+            purchases: [...prevData.purchases, ...purchases],
+            catalog: withCatalogEntries(prevData.catalog || [], purchases.map(purchase => ({
+              id: `catalog-${purchase.id}`,
+              name: purchase.item,
+              defaultCost: getUnitCost(purchase),
+            }))),
+          };
+        }
+        case 'inventory': {
+          const inventory = [...prevData.inventory];
+          csvImport.records.forEach((lot, i) => {
+            inventory.push({ ...lot, item: resolveItemName(inventory, lot.item), id: ids[i] });
+          });
+          const added = inventory.slice(prevData.inventory.length);
+          return {
+            ...prevData,
+            inventory,
+            catalog: withCatalogEntries(prevData.catalog || [], added.map(lot => ({
+              id: `catalog-${lot.id}`,
+              name: lot.item,
+              defaultCost: parseFloat(String(lot.costPerUnit)) || 0,
+            }))),
+          };
+        }
+        case 'expenses':
+          return { ...prevData, expenses: [...prevData.expenses, ...csvImport.records.map((expense, i) => ({ ...expense, id: ids[i] }))] };
+        default:
+          return prevData;
+      }
+    }
+
+    case 'replaceData':
+      return action.data;
+
+    default:
+      return prevData;
+  }
+};
+
+const lotMovements = (lot: InventoryItem | undefined): StockMovement[] =>
+  lot ? [{ date: lot.date, value: (parseFloat(String(lot.quantity)) || 0) * (parseFloat(String(lot.costPerUnit)) || 0) }] : [];
+
+const purchaseMovements = (purchase: Purchase | undefined): StockMovement[] =>
+  purchase ? [{ date: purchase.date, value: parseFloat(String(purchase.cost)) || 0 }] : [];
+
+const consumptionMovements = (record: { date?: string; consumption?: StockConsumption[] } | undefined): StockMovement[] =>
+  record ? [{ date: record.date, value: -getConsumptionCost(record.consumption) }] : [];
+
+// The dated stock movements an action touched, as they were before it and as they are after it.
+const getStockMovements = (prevData: AppData, nextData: AppData, action: AppAction): { before: StockMovement[]; after: StockMovement[] } => {
+  const lotOf = (data: AppData, lotId: string) => data.inventory.find(lot => lot.id === lotId);
+  const purchaseOf = (data: AppData, purchaseId: string) => data.purchases.find(purchase => purchase.id === purchaseId);
+  const saleOf = (data: AppData, saleId: string) => data.sales.find(sale => sale.id === saleId);
+  switch (action.type) {
+    case 'addPurchase':
+    case 'updatePurchase':
+      return { before: purchaseMovements(purchaseOf(prevData, action.purchase.id)), after: purchaseMovements(purchaseOf(nextData, action.purchase.id)) };
+    // Stock already used stays with the sales and waste that used it, so only what is left goes.
+    case 'deletePurchase':
+      return { before: lotMovements(prevData.inventory.find(lot => lot.purchaseId === action.purchaseId)), after: [] };
+    case 'addSale':
+    case 'updateSale':
+      return { before: consumptionMovements(saleOf(prevData, action.sale.id)), after: consumptionMovements(saleOf(nextData, action.sale.id)) };
+    case 'deleteSale':
+      return { before: consumptionMovements(saleOf(prevData, action.saleId)), after: [] };
+    case 'addInventory':
+    case 'updateInventoryItem':
+      return { before: lotMovements(lotOf(prevData, action.item.id)), after: lotMovements(lotOf(nextData, action.item.id)) };
+    case 'deleteInventoryItem':
+      return { before: lotMovements(lotOf(prevData, action.itemId)), after: [] };
+    case 'addWaste':
+      return { before: [], after: consumptionMovements((nextData.waste || []).find(waste => waste.id === action.waste.id)) };
+    // A stocktake moves stock by the difference between what was expected and what was counted.
+    case 'saveStocktake':
+      return {
+        before: [],
+        after: [{ date: action.stocktake.date, value: getInventoryValue(nextData.inventory) - getInventoryValue(prevData.inventory) }],
+      };
+    case 'importCsv':
+      return {
+        before: [],
+        after: action.csvImport.collection === 'inventory' ? action.ids.flatMap(id => lotMovements(lotOf(nextData, id))) : [],
+      };
+    default:
+      return { before: [], after: [] };
+  }
+};
+
+/**
+ * Applies an action to the data. Besides the change itself, the inventory snapshots of past days
+ * are restated for any stock the action added or removed on those days, so the COGS of earlier
+ * periods stays in step with backdated and edited records.
+ */
+export const applyAction = (prevData: AppData, action: AppAction): AppData => {
+  const nextData = reduceAction(prevData, action);
+  if (nextData === prevData || action.type === 'replaceData') {
+    return nextData;
+  }
+  const { before, after } = getStockMovements(prevData, nextData, action);
+  const snapshots = nextData.inventorySnapshots || [];
+  const restated = restateSnapshots(snapshots, [...before.map(movement => ({ ...movement, value: -movement.value })), ...after]);
+  return restated === snapshots ? nextData : { ...nextData, inventorySnapshots: restated };
+};
+
+const formatAmount = (value: number) => `₱${(parseFloat(String(value)) || 0).toFixed(2)}`;
+
+/** A short line for the history panel. `data` is the data before the action. */
+export const describeAction = (action: AppAction, data: AppData): string => {
+  switch (action.type) {
+    case 'addPurchase':
+      return `Purchased ${action.purchase.quantity} × ${action.purchase.item} for ${formatAmount(action.purchase.cost)}`;
+    case 'updatePurchase':
+      return `Edited purchase of ${action.purchase.item}`;
+    case 'deletePurchase': {
+      const purchase = data.purchases.find(p => p.id === action.purchaseId);
+      return `Deleted purchase of ${purchase?.item ?? 'an item'}`;
+    }
+    case 'addSale':
+      return `Recorded sale: ${action.sale.quantity} × ${action.sale.item} for ${formatAmount(action.sale.revenue)}`;
+    case 'updateSale':
+      return `Edited sale of ${action.sale.item}`;
+    case 'deleteSale': {
+      const sale = data.sales.find(s => s.id === action.saleId);
+      return `Deleted sale of ${sale?.item ?? 'an item'}${sale ? ` (${formatAmount(sale.revenue)})` : ''}`;
+    }
+    case 'addProduct':
+      return `Added product ${action.product.name}`;
+    case 'updateProduct':
+      return `Edited product ${action.product.name}`;
+    case 'deleteProduct': {
+      const product = (data.products || []).find(p => p.id === action.productId);
+      return `Deleted product ${product?.name ?? ''}`.trim();
+    }
+    case 'addCatalogItem':
+      return `Added ingredient ${action.catalogItem.name} to the catalog`;
+    case 'updateCatalogItem': {
+      const previous = (data.catalog || []).find(entry => entry.id === action.catalogItem.id);
+      if (previous && !previous.archived !== !action.catalogItem.archived) {
+        return `${action.catalogItem.archived ? 'Archived' : 'Restored'} ingredient ${action.catalogItem.name}`;
+      }
+      if (previous && previous.name !== action.catalogItem.name) {
+        return `Renamed ingredient ${previous.name} to ${action.catalogItem.name}`;
+      }
+      return `Edited ingredient ${action.catalogItem.name}`;
+    }
+    case 'moveCatalogItem': {
+      const entry = (data.catalog || []).find(item => item.id === action.itemId);
+      return `Moved ${entry?.name ?? 'an ingredient'} ${action.direction < 0 ? 'up' : 'down'} the catalog`;
+    }
+    case 'changeBaseUnit': {
+      const entry = (data.catalog || []).find(item => item.id === action.itemId);
+      return entry?.unit
+        ? `Changed ${entry.name} to ${action.unit} (1 ${entry.unit} = ${action.factor} ${action.unit})`
+        : `Changed ${entry?.name ?? 'an ingredient'} to ${action.unit}`;
+    }
+    case 'addSupplier':
+      return `Added supplier ${action.supplier.name}`;
+    case 'updateSupplier':
+      return `Edited supplier ${action.supplier.name}`;
+    case 'deleteSupplier': {
+      const supplier = (data.suppliers || []).find(s => s.id === action.supplierId);
+      return `Deleted supplier ${supplier?.name ?? ''}`.trim();
+    }
+    case 'addInventory':
+      return `Added ${action.item.quantity} × ${action.item.item} to inventory`;
+    case 'updateInventoryItem':
+      return `Edited inventory lot of ${action.item.item}`;
+    case 'deleteInventoryItem': {
+      const lot = data.inventory.find(item => item.id === action.itemId);
+      return `Deleted inventory lot of ${lot?.item ?? 'an item'}`;
+    }
+    case 'addExpense':
+      return `Added expense ${action.expense.name}`;
+    case 'updateExpense':
+      return `Edited expense ${action.expense.name}`;
+    case 'deleteExpense': {
+      const expense = data.expenses.find(e => e.id === action.expenseId);
+      return `Deleted expense ${expense?.name ?? ''}`.trim();
+    }
+    case 'updateSettings':
+      if (action.settings.costingMethod) {
+        return `Switched costing method to ${action.settings.costingMethod === 'fifo' ? 'FIFO' : 'weighted average'}`;
+      }
+      if (action.settings.priceSpikeThreshold !== undefined) {
+        return `Set price spike warnings to ${action.settings.priceSpikeThreshold}% above average`;
+      }
+      if (action.settings.targetMargin !== undefined) {
+        return `Set target menu margin to ${action.settings.targetMargin}%`;
+      }
+      return 'Changed settings';
+    case 'setReorderLevel':
+      return action.level
+        ? `Set ${action.item} to reorder at ${action.level.reorderPoint}, up to ${action.level.parLevel}`
+        : `Cleared reorder levels for ${action.item}`;
+    case 'saveStocktake':
+      return `Saved stocktake of ${action.stocktake.lines.length} items`;
+    case 'addWaste':
+      return `Recorded waste: ${action.waste.quantity} × ${action.waste.item} (${WASTE_REASON_LABELS[action.waste.reason].toLowerCase()})`;
+    case 'importCsv':
+      return `Imported ${action.csvImport.records.length} ${action.csvImport.collection} rows from CSV`;
+    case 'replaceData':
+      return 'Imported a backup';
+    default:
+      return 'Changed data';
+  }
+};
@@ -0,0 +1,190 @@
+
+import { AppData, Analysis, WasteReason } from '../types';
+import { LUMP_SUM_SALE_ITEM } from '../constants';
+import { getConsumptionCost, getInventoryValue } from './inventory';
+import { getValueAtDayStart } from './snapshots';
+import { summarizeExpenses } from './expenses';
+import { DateRange, addDays, isInRange, startOfDay } from './periods';
+
+export interface ProductSales {
+  key: string;
+  item: string;
+  units: number;
+  revenue: number;
+  itemized: boolean;
+}
+
+export interface IngredientUsage {
+  item: string;
+  quantity: number; // in the ingredient's base unit
+  cost: number;
+}
+
+export interface PeriodBucket {
+  label: string;
+  start: Date;
+  sales: number;
+  purchases: number;
+  grossProfit: number;
+}
+
+export interface PeriodReport {
+  range: DateRange;
+  analysis: Analysis;
+  productBreakdown: ProductSales[];
+  ingredientUsage: IngredientUsage[];
+  buckets: PeriodBucket[];
+  bucketSize: 'day' | 'month' | 'none';
+}
+
+const isValidObject = (item: unknown): item is object => !!item && typeof item === 'object';
+
+const toNumber = (value: unknown) => parseFloat(String(value)) || 0;
+
+const WEEK_DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Builds the full analysis for a date range. Pass `null` for all time, which runs from
+ * the earliest dated record up to now. Only the part of a range up to `now` counts
+ * towards expenses and the chart buckets, and a range that is still running closes
+ * at today's inventory value.
+ */
+export const analyzePeriod = (data: AppData, requestedRange: DateRange | null, now: Date = new Date()): PeriodReport => {
+  const purchases = (data.purchases || []).filter(isValidObject);
+  const sales = (data.sales || []).filter(isValidObject);
+  const expenses = (data.expenses || []).filter(isValidObject);
+  const inventory = (data.inventory || []).filter(isValidObject);
+  const snapshots = (data.inventorySnapshots || []).filter(isValidObject);
+  const waste = (data.waste || []).filter(isValidObject);
+  const tomorrow = addDays(now, 1);
+
+  const earliestRecord = [...expenses, ...sales, ...purchases]
+    .map(record => (record.date ? new Date(record.date).getTime() : NaN))
+    .filter(time => !isNaN(time))
+    .reduce((earliest, time) => Math.min(earliest, time), now.getTime());
+  const range: DateRange = requestedRange || { start: startOfDay(new Date(earliestRecord)), end: tomorrow };
+
+  // Undated records predate the ledger and only count towards all time.
+  const inPeriod = (record: { date?: string }) => (requestedRange ? isInRange(record.date, range) : true);
+  const filteredPurchases = purchases.filter(inPeriod);
+  const filteredSales = sales.filter(inPeriod);
+
+  const totalPurchases = filteredPurchases.reduce((acc, p) => acc + toNumber(p.cost), 0);
+  const totalSales = filteredSales.reduce((acc, s) => acc + toNumber(s.revenue), 0);
+  const inventoryValue = getInventoryValue(inventory);
+
+  // Periodic COGS = opening inventory + purchases - closing inventory. Opening and closing
+  // values come from the daily snapshots; a period that has not ended closes at today's value.
+  const inventoryValueAt = (boundary: Date): number | null => {
+    const snapshotValue = getValueAtDayStart(snapshots, boundary);
+    if (snapshotValue !== null) return snapshotValue;
+    // Before anything was ever bought there was nothing in stock.
+    const hasEarlierStock = purchases.some(p => p.date && new Date(p.date) < boundary)
+      || inventory.some(item => item.date && new Date(item.date) < boundary);
+    return hasEarlierStock ? null : 0;
+  };
+  const computeCogs = (start: Date | null, end: Date, purchasesInPeriod: number) => {
+    const opening = start ? inventoryValueAt(start) : 0;
+    const closing = end > now ? inventoryValue : inventoryValueAt(end);
+    if (opening === null || closing === null) {
+      // No snapshot covers this period yet, so fall back to treating purchases as consumed.
+      return { opening: 0, closing: 0, cogs: purchasesInPeriod, estimated: true };
+    }
+    return { opening, closing, cogs: opening + purchasesInPeriod - closing, estimated: false };
+  };
+  const periodCogs = computeCogs(requestedRange ? range.start : null, range.end, totalPurchases);
+
+  // Expenses accrue day by day, so nothing is charged for days that have not happened yet.
+  const accruedEnd = range.end < tomorrow ? range.end : tomorrow;
+  const expenseSummary = summarizeExpenses(expenses, range.start, accruedEnd);
+  const rent = expenseSummary.rent;
+  const otherExpenses = expenseSummary.otherExpenses;
+
+  // Thrown-away stock is already inside COGS; it is broken out so its cost is visible.
+  const filteredWaste = waste.filter(inPeriod);
+  const wasteByReason: Partial<Record<WasteReason, number>> = {};
+  filteredWaste.forEach(record => {
+    wasteByReason[record.reason] = (wasteByReason[record.reason] || 0) + getConsumptionCost(record.consumption);
+  });
+  const wasteCost = Object.values(wasteByReason).reduce((acc, cost) => acc + (cost || 0), 0);
+
+  const cogs = periodCogs.cogs;
+  const grossProfit = totalSales - cogs;
+  const netProfit = grossProfit - rent - otherExpenses;
+
+  const productTotals = new Map<string, ProductSales>();
+  filteredSales.forEach(sale => {
+    const key = sale.productId || sale.item || LUMP_SUM_SALE_ITEM;
+    const entry = productTotals.get(key) || { key, item: sale.item || LUMP_SUM_SALE_ITEM, units: 0, revenue: 0, itemized: !!sale.productId };
+    entry.units += toNumber(sale.quantity);
+    entry.revenue += toNumber(sale.revenue);
+    productTotals.set(key, entry);
+  });
+  const productBreakdown = Array.from(productTotals.values()).sort((a, b) => b.revenue - a.revenue);
+
+  // What sales and waste took out of stock, by ingredient, at the cost of the lots it came from.
+  const usageTotals = new Map<string, IngredientUsage>();
+  [...filteredSales, ...filteredWaste].forEach(record => {
+    (record.consumption || []).forEach(entry => {
+      const key = String(entry.item).trim().toLowerCase();
+      const usage = usageTotals.get(key) || { item: entry.item, quantity: 0, cost: 0 };
+      usage.quantity += toNumber(entry.quantity);
+      usage.cost += toNumber(entry.quantity) * toNumber(entry.costPerUnit);
+      usageTotals.set(key, usage);
+    });
+  });
+  const ingredientUsage = Array.from(usageTotals.values()).sort((a, b) => b.cost - a.cost);
+
+  // Chart buckets: a single day or all time is shown as one summary, up to two months
+  // day by day, and anything longer month by month.
+  const days = Math.round((range.end.getTime() - range.start.getTime()) / 86400000);
+  const bucketSize: PeriodReport['bucketSize'] = !requestedRange || days <= 1 ? 'none' : days <= 62 ? 'day' : 'month';
+  const buckets: PeriodBucket[] = [];
+  if (bucketSize !== 'none') {
+    let bucketStart = range.start;
+    while (bucketStart < accruedEnd) {
+      const bucketEnd = bucketSize === 'day'
+        ? addDays(bucketStart, 1)
+        : new Date(bucketStart.getFullYear(), bucketStart.getMonth() + 1, 1);
+      const bucketRange = { start: bucketStart, end: bucketEnd < range.end ? bucketEnd : range.end };
+      const bucketSales = filteredSales.filter(s => isInRange(s.date, bucketRange)).reduce((acc, s) => acc + toNumber(s.revenue), 0);
+      const bucketPurchases = filteredPurchases.filter(p => isInRange(p.date, bucketRange)).reduce((acc, p) => acc + toNumber(p.cost), 0);
+      buckets.push({
+        label: bucketSize === 'month'
+          ? bucketStart.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+          : days <= 7
+            ? WEEK_DAYS[bucketStart.getDay()]
+            : bucketStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+        start: bucketStart,
+        sales: bucketSales,
+        purchases: bucketPurchases,
+        grossProfit: bucketSales - computeCogs(bucketRange.start, bucketRange.end, bucketPurchases).cogs,
+      });
+      bucketStart = bucketRange.end;
+    }
+  }
+
+  return {
+    range,
+    analysis: {
+      totalPurchases,
+      totalSales,
+      inventoryValue,
+      rent,
+      otherExpenses,
+      expensesByCategory: expenseSummary.byCategory,
+      openingInventory: periodCogs.opening,
+      closingInventory: periodCogs.closing,
+      cogs,
+      cogsEstimated: periodCogs.estimated,
+      grossProfit,
+      netProfit,
+      wasteCost,
+      wasteByReason,
+    },
+    productBreakdown,
+    ingredientUsage,
+    buckets,
+    bucketSize,
+  };
+};
@@ -0,0 +1,136 @@
+import { AppData, AuditEntity, AuditEntry, AuditOperation, StockConsumption } from '../types';
+import { generateId } from './id';
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  sale: 'Sale',
+  purchase: 'Purchase',
+  inventory: 'Inventory Lot',
+  expense: 'Expense',
+};
+
+export const AUDIT_OPERATION_LABELS: Record<AuditOperation, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+// The collection each audited entity lives in.
+const AUDITED_COLLECTIONS: Record<AuditEntity, 'sales' | 'purchases' | 'inventory' | 'expenses'> = {
+  sale: 'sales',
+  purchase: 'purchases',
+  inventory: 'inventory',
+  expense: 'expenses',
+};
+
+type AuditedRecord = NonNullable<AuditEntry['before']>;
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Kept on both sides of an update even when unchanged, so the entry can still say what it is about.
+const NAME_FIELDS = ['item', 'name'];
+
+// The fields that differ between two versions of a record, as they were and as they are.
+const pickChangedFields = (from: AuditedRecord, to: AuditedRecord): [AuditedRecord, AuditedRecord] => {
+  const fromFields = from as Record<string, unknown>;
+  const toFields = to as Record<string, unknown>;
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+  new Set([...Object.keys(fromFields), ...Object.keys(toFields)]).forEach(field => {
+    if (NAME_FIELDS.includes(field) || !isEqual(fromFields[field], toFields[field])) {
+      if (field in fromFields) before[field] = fromFields[field];
+      if (field in toFields) after[field] = toFields[field];
+    }
+  });
+  return [before as AuditedRecord, after as AuditedRecord];
+};
+
+const toById = (records: unknown): Map<string, AuditedRecord> =>
+  new Map(
+    (Array.isArray(records) ? records : [])
+      .filter(record => record && typeof record === 'object' && typeof record.id === 'string')
+      .map(record => [record.id, record])
+  );
+
+// Lots drawn from or put back by the sales and waste records that changed between `before` and `after`.
+const getConsumedLotIds = (before: AppData, after: AppData): Set<string> => {
+  const lotIds = new Set<string>();
+  (['sales', 'waste'] as const).forEach(collection => {
+    if (before[collection] === after[collection]) return;
+    const beforeById = toById(before[collection]);
+    const afterById = toById(after[collection]);
+    new Set([...beforeById.keys(), ...afterById.keys()]).forEach(id => {
+      const versions = [beforeById.get(id), afterById.get(id)];
+      if (isEqual(versions[0], versions[1])) return;
+      versions.forEach(record => {
+        const consumption = (record as { consumption?: StockConsumption[] } | undefined)?.consumption;
+        (Array.isArray(consumption) ? consumption : []).forEach(entry => lotIds.add(entry.lotId));
+      });
+    });
+  });
+  return lotIds;
+};
+
+/**
+ * One entry for every audited record that `after` creates, changes or removes compared with `before`.
+ * A lot whose quantity only moved because a sale or waste record drew from it gets no entry of its
+ * own: that record already lists which lots it used and how much.
+ */
+export const diffForAudit = (before: AppData, after: AppData, actor: string, cause: string, at: string): AuditEntry[] => {
+  const entries: AuditEntry[] = [];
+  const consumedLotIds = getConsumedLotIds(before, after);
+  const push = (entity: AuditEntity, operation: AuditOperation, recordId: string, from?: AuditedRecord, to?: AuditedRecord) => {
+    entries.push({ id: generateId('audit'), at, actor, entity, operation, recordId, before: from, after: to, cause });
+  };
+  (Object.keys(AUDITED_COLLECTIONS) as AuditEntity[]).forEach(entity => {
+    const collection = AUDITED_COLLECTIONS[entity];
+    if (before[collection] === after[collection]) return;
+    const beforeById = toById(before[collection]);
+    const afterById = toById(after[collection]);
+    afterById.forEach((record, id) => {
+      const previous = beforeById.get(id);
+      if (!previous) {
+        push(entity, 'create', id, undefined, record);
+      } else if (previous !== record && !isEqual(previous, record)) {
+        const [from, to] = pickChangedFields(previous, record);
+        const isConsumption = entity === 'inventory' && consumedLotIds.has(id)
+          && Object.keys(to).every(field => NAME_FIELDS.includes(field) || field === 'quantity');
+        if (!isConsumption) push(entity, 'update', id, from, to);
+      }
+    });
+    beforeById.forEach((record, id) => {
+      if (!afterById.has(id)) push(entity, 'delete', id, record, undefined);
+    });
+  });
+  return entries;
+};
+
+/**
+ * Returns `after` with audit entries appended for the records that changed since `before`.
+ * Entries already in either log are kept: the log is only ever appended to, even when a
+ * backup replaces everything else.
+ */
+export const withAuditEntries = (before: AppData, after: AppData, cause: string): AppData => {
+  const previousLog = Array.isArray(before.auditLog) ? before.auditLog : [];
+  const nextLog = Array.isArray(after.auditLog) ? after.auditLog : [];
+  const knownIds = new Set(nextLog.map(entry => entry.id));
+  const log = nextLog === previousLog ? nextLog : [...nextLog, ...previousLog.filter(entry => !knownIds.has(entry.id))];
+  const entries = diffForAudit(before, after, after.settings?.actor || '', cause, new Date().toISOString());
+  if (entries.length === 0 && log === nextLog) {
+    return after;
+  }
+  return { ...after, auditLog: [...log, ...entries] };
+};
+
+/** The fields an update changed, or every field of a created or deleted record. */
+export const getChangedFields = (entry: AuditEntry): string[] => {
+  const from = (entry.before || {}) as Record<string, unknown>;
+  const to = (entry.after || {}) as Record<string, unknown>;
+  return Array.from(new Set([...Object.keys(from), ...Object.keys(to)]))
+    .filter(field => field !== 'id' && !isEqual(from[field], to[field]));
+};
+
+/** A short name for the record an entry is about. */
+export const describeAuditRecord = (entry: AuditEntry): string => {
+  const record = (entry.after || entry.before || {}) as { item?: string; name?: string };
+  return record.item || record.name || entry.recordId;
+};
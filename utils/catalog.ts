@@ -0,0 +1,42 @@
+import { CatalogItem } from '../types';
+import { CATALOG_SEED } from '../constants';
+import { isSameItem } from './inventory';
+
+/** The catalog for a new install. Seed ids are fixed so every device seeds the same records. */
+export const createSeedCatalog = (): CatalogItem[] =>
+  CATALOG_SEED.map((seed, index) => ({ ...seed, id: `catalog-seed-${index}` }));
+
+export const findCatalogItem = (catalog: CatalogItem[], name: string) =>
+  catalog.find(entry => entry && typeof entry.name === 'string' && isSameItem(entry.name, name));
+
+/**
+ * Adds any ingredients the catalog does not know yet, e.g. stock added by hand under a new name.
+ * Each new entry's id comes from the record that introduced it, so applying this stays
+ * deterministic. Returns the same array when nothing is added.
+ */
+export const withCatalogEntries = (
+  catalog: CatalogItem[],
+  entries: { id: string; name: string; defaultCost: number }[]
+): CatalogItem[] => {
+  let result = catalog;
+  entries.forEach(entry => {
+    if (entry.name && !findCatalogItem(result, entry.name)) {
+      result = [...result, { id: entry.id, name: entry.name.trim(), category: '', unit: '', defaultCost: entry.defaultCost }];
+    }
+  });
+  return result;
+};
+
+/** Swaps an item with its nearest active neighbour above (-1) or below (1). Archived items keep their places. */
+export const moveCatalogItem = (catalog: CatalogItem[], itemId: string, direction: -1 | 1): CatalogItem[] => {
+  const index = catalog.findIndex(entry => entry.id === itemId);
+  if (index === -1) return catalog;
+  let target = index + direction;
+  while (target >= 0 && target < catalog.length && catalog[target].archived) {
+    target += direction;
+  }
+  if (target < 0 || target >= catalog.length) return catalog;
+  const result = catalog.slice();
+  [result[index], result[target]] = [result[target], result[index]];
+  return result;
+};
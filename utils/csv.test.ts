@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { guessCsvMapping, parseCsv, readCsvRecords, toCsv } from './csv';
+
+const readSales = (text: string) => {
+  const [header, ...rows] = parseCsv(text);
+  return readCsvRecords('sales', rows, guessCsvMapping('sales', header));
+};
+
+describe('toCsv', () => {
+  it('puts an apostrophe in front of text a spreadsheet would run as a formula', () => {
+    expect(toCsv([['=SUM(A1:A9)', '+1', '-2', '@cmd', 'Pizza', -3]])).toBe("'=SUM(A1:A9),'+1,'-2,'@cmd,Pizza,-3");
+  });
+
+  it('reads escaped text back as it was written', () => {
+    const { result, errors } = readSales(toCsv([['date', 'item', 'quantity', 'revenue'], ['2026-03-01', '=Special', 2, 400]]));
+
+    expect(errors).toEqual([]);
+    expect(result.records[0]).toMatchObject({ item: '=Special' });
+  });
+});
+
+describe('readCsvRecords', () => {
+  it('reads commas as thousands separators', () => {
+    const { result } = readSales('date,item,quantity,revenue\n2026-03-01,Pizza,2,"1,250.50"');
+
+    expect(result.records[0]).toMatchObject({ revenue: 1250.5 });
+  });
+
+  it('rejects a decimal comma instead of guessing', () => {
+    const { result, errors } = readSales('date,item,quantity,revenue\n2026-03-01,Pizza,"1,5",400');
+
+    expect(result.records).toEqual([]);
+    expect(errors[0].message).toContain('"1,5" is not a valid amount');
+  });
+});
@@ -0,0 +1,242 @@
+import { AppData, Expense, ExpenseCategory, ExpenseSchedule, InventoryItem, Purchase, Sale } from '../types';
+import { EXPENSE_CATEGORY_LABELS, EXPENSE_SCHEDULE_LABELS } from '../constants';
+import { DateRange, isInRange } from './periods';
+
+export type CsvCollection = 'sales' | 'purchases' | 'inventory' | 'expenses';
+
+export interface CsvColumn {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+// Header names are part of the file format: keep them stable so exported sheets can be re-imported.
+export const CSV_COLUMNS: Record<CsvCollection, CsvColumn[]> = {
+  sales: [
+    { key: 'date', label: 'Date', required: true },
+    { key: 'item', label: 'Item', required: true },
+    { key: 'quantity', label: 'Quantity', required: true },
+    { key: 'revenue', label: 'Revenue', required: true },
+    { key: 'unitPrice', label: 'Unit Price', required: false },
+  ],
+  purchases: [
+    { key: 'date', label: 'Date', required: true },
+    { key: 'item', label: 'Item', required: true },
+    { key: 'quantity', label: 'Quantity', required: true },
+    { key: 'cost', label: 'Total Cost', required: true },
+  ],
+  inventory: [
+    { key: 'date', label: 'Date Added', required: false },
+    { key: 'item', label: 'Item', required: true },
+    { key: 'quantity', label: 'Quantity', required: true },
+    { key: 'costPerUnit', label: 'Cost Per Unit', required: true },
+  ],
+  expenses: [
+    { key: 'date', label: 'Date', required: true },
+    { key: 'name', label: 'Name', required: true },
+    { key: 'amount', label: 'Amount', required: true },
+    { key: 'category', label: 'Category', required: false },
+    { key: 'schedule', label: 'Schedule', required: false },
+    { key: 'effectiveTo', label: 'Effective To', required: false },
+  ],
+};
+
+export const CSV_COLLECTION_LABELS: Record<CsvCollection, string> = {
+  sales: 'Sales',
+  purchases: 'Purchases',
+  inventory: 'Inventory',
+  expenses: 'Expenses',
+};
+
+export type CsvImport =
+  | { collection: 'sales'; records: Omit<Sale, 'id'>[] }
+  | { collection: 'purchases'; records: Omit<Purchase, 'id' | 'lotId'>[] }
+  | { collection: 'inventory'; records: Omit<InventoryItem, 'id'>[] }
+  | { collection: 'expenses'; records: Omit<Expense, 'id'>[] };
+
+export interface CsvRowError {
+  row: number; // 1-based line number in the file, counting the header
+  message: string;
+}
+
+/** Maps each column key to the index of the file column it is read from. */
+export type CsvMapping = Record<string, number | undefined>;
+
+/** Splits CSV text into rows of cells. Handles quoted cells, escaped quotes and CRLF line endings. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Spreadsheet apps like to leave trailing blank lines behind.
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+// Spreadsheets run text starting with one of these as a formula, so such cells get a leading apostrophe.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: string | number | undefined) => {
+  const raw = value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number | undefined)[][]): string =>
+  rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+const getRecords = (data: AppData, collection: CsvCollection): Record<string, any>[] => data[collection] || [];
+
+/** Builds the CSV for one collection. With a range, records without a date are left out. */
+export const exportCollectionCsv = (data: AppData, collection: CsvCollection, range: DateRange | null): string => {
+  const columns = CSV_COLUMNS[collection];
+  const records = getRecords(data, collection)
+    .filter(record => !range || (record.date && isInRange(record.date, range)))
+    .sort((a, b) => new Date(a.date || 0).getTime() - new Date(b.date || 0).getTime());
+  return toCsv([
+    columns.map(column => column.key),
+    ...records.map(record => columns.map(column => record[column.key])),
+  ]);
+};
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Matches file headers to columns by key or label, ignoring case, spaces and punctuation. */
+export const guessCsvMapping = (collection: CsvCollection, headers: string[]): CsvMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: CsvMapping = {};
+  CSV_COLUMNS[collection].forEach(column => {
+    const index = normalized.findIndex(header => header === normalizeHeader(column.key) || header === normalizeHeader(column.label));
+    mapping[column.key] = index === -1 ? undefined : index;
+  });
+  return mapping;
+};
+
+// Commas are only read as thousands separators ("1,250.50"). Anything else, like a decimal
+// comma in "1,5", could mean either 1.5 or 15, so it is rejected rather than guessed.
+const THOUSANDS_GROUPING = /^-?\d{1,3}(,\d{3})+(\.\d+)?$/;
+
+const parseNumberCell = (value: string) => {
+  const cleaned = value.replace(/[₱\s]/g, '');
+  if (cleaned.includes(',') && !THOUSANDS_GROUPING.test(cleaned)) return NaN;
+  return cleaned === '' ? NaN : Number(cleaned.replace(/,/g, ''));
+};
+
+// Undoes the apostrophe `escapeCell` puts in front of formula-like text.
+const parseTextCell = (value: string) => (/^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value);
+
+// Plain YYYY-MM-DD dates are read as local midnight, matching the date inputs elsewhere in the app.
+const parseDateCell = (value: string) => {
+  const trimmed = value.trim();
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? `${trimmed}T00:00:00` : trimmed);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const findOption = <T extends string>(value: string, labels: Record<T, string>): T | undefined => {
+  const wanted = normalizeHeader(value);
+  return (Object.keys(labels) as T[]).find(key => normalizeHeader(key) === wanted || normalizeHeader(labels[key]) === wanted);
+};
+
+/**
+ * Converts data rows (header excluded) into records using the given column mapping.
+ * Rows with any invalid cell are reported and left out of the result.
+ */
+export const readCsvRecords = (
+  collection: CsvCollection,
+  rows: string[][],
+  mapping: CsvMapping
+): { result: CsvImport; errors: CsvRowError[] } => {
+  const columns = CSV_COLUMNS[collection];
+  const errors: CsvRowError[] = [];
+  const records: Record<string, any>[] = [];
+
+  rows.forEach((cells, index) => {
+    const rowNumber = index + 2;
+    const rowErrors: string[] = [];
+    const record: Record<string, any> = {};
+
+    columns.forEach(column => {
+      const columnIndex = mapping[column.key];
+      const raw = columnIndex === undefined ? '' : (cells[columnIndex] ?? '').trim();
+      if (raw === '') {
+        if (column.required) rowErrors.push(`${column.label} is missing`);
+        return;
+      }
+      switch (column.key) {
+        case 'date':
+        case 'effectiveTo': {
+          const date = parseDateCell(raw);
+          if (date) record[column.key] = date;
+          else rowErrors.push(`${column.label} "${raw}" is not a valid date`);
+          break;
+        }
+        case 'item':
+        case 'name':
+          record[column.key] = parseTextCell(raw);
+          break;
+        case 'category': {
+          const category = findOption<ExpenseCategory>(raw, EXPENSE_CATEGORY_LABELS);
+          if (category) record.category = category;
+          else rowErrors.push(`Category "${raw}" is not one of ${Object.keys(EXPENSE_CATEGORY_LABELS).join(', ')}`);
+          break;
+        }
+        case 'schedule': {
+          const schedule = findOption<ExpenseSchedule>(raw, EXPENSE_SCHEDULE_LABELS);
+          if (schedule) record.schedule = schedule;
+          else rowErrors.push(`Schedule "${raw}" is not one of ${Object.keys(EXPENSE_SCHEDULE_LABELS).join(', ')}`);
+          break;
+        }
+        default: {
+          const value = parseNumberCell(raw);
+          const hint = raw.includes(',') ? ' (write decimals with a point, e.g. 1.5)' : '';
+          if (isNaN(value) || value < 0) rowErrors.push(`${column.label} "${raw}" is not a valid amount${hint}`);
+          else record[column.key] = value;
+        }
+      }
+    });
+
+    if (collection === 'expenses') {
+      record.category = record.category || 'other';
+      record.schedule = record.schedule || 'once';
+      if (record.schedule === 'once') delete record.effectiveTo;
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push({ row: rowNumber, message: rowErrors.join('; ') });
+    } else {
+      records.push(record);
+    }
+  });
+
+  return { result: { collection, records } as CsvImport, errors };
+};
@@ -0,0 +1,60 @@
+
+import { Expense, ExpenseCategory } from '../types';
+import { addDays, startOfDay } from './periods';
+
+const daysInMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+
+/**
+ * The part of an expense that falls within [start, end). One-off expenses count in
+ * full on their date; recurring ones accrue per calendar day they are in effect, so a
+ * monthly amount is split by the actual length of each month it touches.
+ */
+export const getExpenseAmountForPeriod = (expense: Expense, start: Date, end: Date): number => {
+  const amount = parseFloat(String(expense.amount)) || 0;
+  const effectiveFrom = expense.date ? startOfDay(new Date(expense.date)) : start;
+
+  if (expense.schedule === 'once') {
+    return effectiveFrom >= startOfDay(start) && effectiveFrom < end ? amount : 0;
+  }
+
+  const from = new Date(Math.max(startOfDay(start).getTime(), effectiveFrom.getTime()));
+  const effectiveEnd = expense.effectiveTo
+    ? addDays(new Date(expense.effectiveTo), 1)
+    : end;
+  const to = new Date(Math.min(end.getTime(), effectiveEnd.getTime()));
+
+  let total = 0;
+  for (let day = from; day < to; day = addDays(day, 1)) {
+    if (expense.schedule === 'daily') {
+      total += amount;
+    } else if (expense.schedule === 'weekly') {
+      total += amount / 7;
+    } else {
+      total += amount / daysInMonth(day);
+    }
+  }
+  return total;
+};
+
+export const summarizeExpenses = (expenses: Expense[], start: Date, end: Date) => {
+  const byCategory: Partial<Record<ExpenseCategory, number>> = {};
+  expenses.forEach(expense => {
+    const amount = getExpenseAmountForPeriod(expense, start, end);
+    if (amount > 0) {
+      const category = expense.category || 'other';
+      byCategory[category] = (byCategory[category] || 0) + amount;
+    }
+  });
+  const rent = byCategory.rent || 0;
+  const total = Object.values(byCategory).reduce((acc, value) => acc + (value || 0), 0);
+  return { byCategory, rent, otherExpenses: total - rent };
+};
+
+/** Whether a recurring expense is in effect on the given day. */
+export const isExpenseActive = (expense: Expense, on: Date = new Date()) => {
+  if (expense.schedule === 'once') return false;
+  const day = startOfDay(on);
+  const from = expense.date ? startOfDay(new Date(expense.date)) : day;
+  const to = expense.effectiveTo ? startOfDay(new Date(expense.effectiveTo)) : null;
+  return from <= day && (!to || day <= to);
+};
@@ -0,0 +1,21 @@
+import { InventoryItem } from '../types';
+import { startOfDay } from './periods';
+
+export interface ExpiringLot {
+  lot: InventoryItem;
+  daysLeft: number; // 0 on the expiry day itself, negative once expired
+}
+
+/** Whole days from today until a lot's expiry day. */
+export const getDaysUntilExpiry = (expiryDate: string, now: Date = new Date()) => {
+  const expiry = new Date(`${expiryDate.slice(0, 10)}T00:00:00`);
+  return Math.round((expiry.getTime() - startOfDay(now).getTime()) / 86400000);
+};
+
+/** Lots still in stock that have expired or expire within `withinDays`, soonest first. */
+export const getExpiringLots = (inventory: InventoryItem[], withinDays: number, now: Date = new Date()): ExpiringLot[] =>
+  inventory
+    .filter(lot => lot && lot.expiryDate && (parseFloat(String(lot.quantity)) || 0) > 0)
+    .map(lot => ({ lot, daysLeft: getDaysUntilExpiry(lot.expiryDate!, now) }))
+    .filter(entry => !isNaN(entry.daysLeft) && entry.daysLeft <= withinDays)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
@@ -0,0 +1,98 @@
+import { AppData } from '../types';
+import { STORE_KEYS, StoreKey } from './storage';
+
+export interface StoreChange {
+  before: unknown;
+  after: unknown;
+}
+
+/** The stores an action changed, with their values either side of it. */
+export type StoreChanges = Partial<Record<StoreKey, StoreChange>>;
+
+// The audit log is append-only, so undo and redo never take entries out of it.
+const UNDOABLE_KEYS = STORE_KEYS.filter(key => key !== 'auditLog');
+
+export const captureChanges = (before: AppData, after: AppData): StoreChanges => {
+  const changes: StoreChanges = {};
+  UNDOABLE_KEYS.forEach(key => {
+    if (before[key] !== after[key]) {
+      changes[key] = { before: before[key], after: after[key] };
+    }
+  });
+  return changes;
+};
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+type IdRecord = { id: string } & Record<string, unknown>;
+
+const hasIds = (value: unknown): value is IdRecord[] =>
+  Array.isArray(value) && value.every(record => isRecord(record) && typeof record.id === 'string');
+
+const roundQuantity = (value: number) => Math.round(value * 1e6) / 1e6;
+
+// Lot quantities are replayed as a difference so that stock used since is kept. Every other
+// quantity (a sale's, a purchase's, a stocktake line's) is a plain value.
+const isAdditiveField = (key: StoreKey, field: string) => key === 'inventory' && field === 'quantity';
+
+// Field by field: lot quantities move by the same amount they moved from `from` to `to`,
+// other fields take the `to` value if they changed.
+export const replayRecord = (key: StoreKey, from: Record<string, unknown>, to: Record<string, unknown>, current: Record<string, unknown>) => {
+  const result: Record<string, unknown> = { ...current };
+  new Set([...Object.keys(from), ...Object.keys(to)]).forEach(field => {
+    const start = from[field];
+    const end = to[field];
+    if (isEqual(start, end)) return;
+    const now = current[field];
+    if (isAdditiveField(key, field) && typeof start === 'number' && typeof end === 'number' && typeof now === 'number') {
+      result[field] = roundQuantity(now + (end - start));
+    } else if (end === undefined) {
+      delete result[field];
+    } else {
+      result[field] = end;
+    }
+  });
+  return result;
+};
+
+/**
+ * Applies the change from `from` to `to` onto `current`, which may have moved on since.
+ * Undo replays after → before, redo replays before → after. Records are matched by id so
+ * unrelated records added or edited in the meantime are left alone.
+ */
+export const replayValue = (key: StoreKey, from: unknown, to: unknown, current: unknown): unknown => {
+  if (isEqual(from, to)) return current;
+  if (hasIds(from) && hasIds(to) && hasIds(current)) {
+    const fromById = new Map(from.map(record => [record.id, record]));
+    const toById = new Map(to.map(record => [record.id, record]));
+    const result: IdRecord[] = current
+      .filter(record => !(fromById.has(record.id) && !toById.has(record.id)))
+      .map(record => {
+        const start = fromById.get(record.id);
+        const end = toById.get(record.id);
+        return start && end && !isEqual(start, end) ? replayRecord(key, start, end, record) as IdRecord : record;
+      });
+    to.forEach(record => {
+      if (!fromById.has(record.id) && !result.some(existing => existing.id === record.id)) {
+        result.push(record);
+      }
+    });
+    return result;
+  }
+  if (isRecord(from) && isRecord(to) && isRecord(current)) {
+    return replayRecord(key, from, to, current);
+  }
+  return to;
+};
+
+export const replayChanges = (current: AppData, changes: StoreChanges, direction: 'undo' | 'redo'): AppData => {
+  const next = { ...current } as Record<StoreKey, unknown>;
+  (Object.keys(changes) as StoreKey[]).forEach(key => {
+    const { before, after } = changes[key]!;
+    next[key] = direction === 'undo' ? replayValue(key, after, before, current[key]) : replayValue(key, before, after, current[key]);
+  });
+  return next as unknown as AppData;
+};
@@ -0,0 +1,3 @@
+
+export const generateId = (prefix: string): string =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -0,0 +1,198 @@
+
+import { CostingMethod, InventoryItem, MenuProduct, Sale, StockConsumption } from '../types';
+
+export const isSameItem = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** Returns the name an ingredient is already stocked under, so new lots group with the existing ones. */
+export const resolveItemName = (inventory: InventoryItem[], itemName: string) =>
+  inventory.find(lot => lot && typeof lot.item === 'string' && isSameItem(lot.item, itemName))?.item ?? itemName.trim();
+
+const toNumber = (value: unknown) => parseFloat(String(value)) || 0;
+
+export const getUnitCost = (purchase: { quantity: number; cost: number }) =>
+  purchase.cost > 0 && purchase.quantity > 0 ? purchase.cost / purchase.quantity : 0;
+
+// Recipe quantities are often fractions (e.g. 0.03 kg), so trim floating point noise.
+const roundQuantity = (value: number) => Math.round(value * 1e6) / 1e6;
+
+export interface IngredientStock {
+  item: string;
+  quantity: number;
+  value: number;
+  averageCost: number;
+  lots: InventoryItem[];
+}
+
+/** Groups inventory lots by ingredient name (case-insensitive), newest lot first. */
+export const groupInventoryByItem = (inventory: InventoryItem[]): IngredientStock[] => {
+  const groups: IngredientStock[] = [];
+  inventory.filter(lot => lot && typeof lot === 'object').forEach(lot => {
+    let group = groups.find(g => isSameItem(g.item, lot.item));
+    if (!group) {
+      group = { item: lot.item, quantity: 0, value: 0, averageCost: 0, lots: [] };
+      groups.push(group);
+    }
+    group.lots.push(lot);
+    group.quantity = roundQuantity(group.quantity + toNumber(lot.quantity));
+    group.value += toNumber(lot.quantity) * toNumber(lot.costPerUnit);
+  });
+  return groups
+    .map(group => {
+      const lots = group.lots.slice().sort((a, b) => new Date(b.date || 0).getTime() - new Date(a.date || 0).getTime());
+      // With nothing on hand fall back to what the newest lot cost.
+      const averageCost = group.quantity > 0 ? group.value / group.quantity : toNumber(lots[0]?.costPerUnit);
+      return { ...group, lots, averageCost };
+    })
+    .sort((a, b) => a.item.localeCompare(b.item));
+};
+
+/**
+ * Deducts `quantity` of an ingredient from its lots according to the costing method:
+ * FIFO empties the oldest lots first at their own cost, while weighted average draws
+ * from every lot in proportion, costed at the ingredient's average cost.
+ * Returns the updated inventory and a record of which lots were drawn from,
+ * so the deduction can be reversed later. If there is not enough stock the
+ * lots are emptied and the shortfall is simply not recorded.
+ */
+export const consumeStock = (
+  inventory: InventoryItem[],
+  itemName: string,
+  quantity: number,
+  method: CostingMethod = 'fifo'
+): { inventory: InventoryItem[]; consumption: StockConsumption[] } => {
+  const lots = inventory
+    .filter(lot => isSameItem(lot.item, itemName) && toNumber(lot.quantity) > 0)
+    .sort((a, b) => new Date(a.date || 0).getTime() - new Date(b.date || 0).getTime());
+
+  const deductions = new Map<string, number>();
+  const consumption: StockConsumption[] = [];
+
+  if (method === 'average') {
+    const onHand = lots.reduce((acc, lot) => acc + toNumber(lot.quantity), 0);
+    const averageCost = onHand > 0 ? lots.reduce((acc, lot) => acc + toNumber(lot.quantity) * toNumber(lot.costPerUnit), 0) / onHand : 0;
+    const share = onHand > 0 ? Math.min(quantity / onHand, 1) : 0;
+    lots.forEach(lot => {
+      const taken = roundQuantity(toNumber(lot.quantity) * share);
+      if (taken > 0) {
+        deductions.set(lot.id, taken);
+        consumption.push({ lotId: lot.id, item: lot.item, quantity: taken, costPerUnit: averageCost });
+      }
+    });
+  } else {
+    let remaining = quantity;
+    for (const lot of lots) {
+      if (remaining <= 0) break;
+      const taken = Math.min(toNumber(lot.quantity), remaining);
+      deductions.set(lot.id, taken);
+      consumption.push({ lotId: lot.id, item: lot.item, quantity: taken, costPerUnit: toNumber(lot.costPerUnit) });
+      remaining -= taken;
+    }
+  }
+
+  return {
+    inventory: inventory.map(lot =>
+      deductions.has(lot.id) ? { ...lot, quantity: roundQuantity(toNumber(lot.quantity) - deductions.get(lot.id)!) } : lot
+    ),
+    consumption,
+  };
+};
+
+/** Deducts up to `quantity` from one particular lot, costed at what that lot cost. */
+export const consumeLotStock = (
+  inventory: InventoryItem[],
+  lotId: string,
+  quantity: number
+): { inventory: InventoryItem[]; consumption: StockConsumption[] } => {
+  const lot = inventory.find(l => l.id === lotId);
+  const taken = lot ? roundQuantity(Math.min(toNumber(lot.quantity), quantity)) : 0;
+  if (!lot || taken <= 0) {
+    return { inventory, consumption: [] };
+  }
+  return {
+    inventory: inventory.map(l => (l.id === lotId ? { ...l, quantity: roundQuantity(toNumber(l.quantity) - taken) } : l)),
+    consumption: [{ lotId, item: lot.item, quantity: taken, costPerUnit: toNumber(lot.costPerUnit) }],
+  };
+};
+
+/** What the stock drawn from lots cost. */
+export const getConsumptionCost = (consumption: StockConsumption[] = []) =>
+  consumption.reduce((acc, c) => acc + toNumber(c.quantity) * toNumber(c.costPerUnit), 0);
+
+/** Deducts the ingredients for `units` servings of a product. */
+export const consumeRecipe = (
+  inventory: InventoryItem[],
+  product: MenuProduct,
+  units: number,
+  method: CostingMethod = 'fifo'
+): { inventory: InventoryItem[]; consumption: StockConsumption[] } => {
+  return (product.recipe || []).reduce(
+    (acc, ingredient) => {
+      const result = consumeStock(acc.inventory, ingredient.item, ingredient.quantity * units, method);
+      return { inventory: result.inventory, consumption: [...acc.consumption, ...result.consumption] };
+    },
+    { inventory, consumption: [] as StockConsumption[] }
+  );
+};
+
+/**
+ * Deducts the recipe of the product a sale refers to and records the consumed
+ * lots on the sale, so edits and deletes can put the stock back.
+ */
+export const consumeSaleStock = (
+  inventory: InventoryItem[],
+  products: MenuProduct[],
+  sale: Sale,
+  method: CostingMethod = 'fifo'
+): { inventory: InventoryItem[]; sale: Sale } => {
+  const product = sale.productId ? products.find(p => p.id === sale.productId) : undefined;
+  if (!product) {
+    return { inventory, sale: { ...sale, consumption: undefined } };
+  }
+  const result = consumeRecipe(inventory, product, toNumber(sale.quantity), method);
+  return { inventory: result.inventory, sale: { ...sale, consumption: result.consumption } };
+};
+
+/** Puts previously consumed quantities back into the lots they came from. Lots that no longer exist are skipped. */
+export const restoreStock = (inventory: InventoryItem[], consumption: StockConsumption[] = []): InventoryItem[] => {
+  const returns = new Map<string, number>();
+  consumption.forEach(c => returns.set(c.lotId, (returns.get(c.lotId) || 0) + c.quantity));
+  return inventory.map(lot =>
+    returns.has(lot.id) ? { ...lot, quantity: roundQuantity(toNumber(lot.quantity) + returns.get(lot.id)!) } : lot
+  );
+};
+
+/**
+ * Brings an ingredient's total on-hand quantity to `target`. Shortages are taken
+ * out per the costing method; surpluses are added back to the newest lot.
+ */
+export const setStockLevel = (
+  inventory: InventoryItem[],
+  itemName: string,
+  target: number,
+  method: CostingMethod = 'fifo'
+): InventoryItem[] => {
+  const lots = inventory.filter(lot => isSameItem(lot.item, itemName));
+  const current = lots.reduce((acc, lot) => acc + toNumber(lot.quantity), 0);
+  const difference = roundQuantity(target - current);
+  if (difference < 0) {
+    return consumeStock(inventory, itemName, -difference, method).inventory;
+  }
+  if (difference > 0 && lots.length > 0) {
+    const newest = lots.reduce((a, b) => (new Date(b.date || 0).getTime() >= new Date(a.date || 0).getTime() ? b : a));
+    return inventory.map(lot =>
+      lot.id === newest.id ? { ...lot, quantity: roundQuantity(toNumber(lot.quantity) + difference) } : lot
+    );
+  }
+  return inventory;
+};
+
+/**
+ * Values the stock on hand at what each lot cost. This is the same under both costing
+ * methods: an ingredient's weighted-average cost times its quantity is the sum of its
+ * lots' values. The method only changes how much each use of stock is costed at.
+ */
+export const getInventoryValue = (inventory: InventoryItem[]) => {
+  return inventory.filter(item => item && typeof item === 'object').reduce((acc, item) => {
+    return acc + toNumber(item.quantity) * toNumber(item.costPerUnit);
+  }, 0);
+};
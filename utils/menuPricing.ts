@@ -0,0 +1,73 @@
+import { CatalogItem, InventoryItem, MenuProduct } from '../types';
+import { findCatalogItem } from './catalog';
+import { groupInventoryByItem, IngredientStock, isSameItem } from './inventory';
+
+export type CostSource = 'inventory' | 'catalog' | 'none';
+
+export interface PlateCostLine {
+  item: string;
+  quantity: number; // per serving, in base units
+  unitCost: number;
+  cost: number;
+  source: CostSource; // where the unit cost came from
+}
+
+export interface ProductPricing {
+  product: MenuProduct;
+  lines: PlateCostLine[];
+  plateCost: number;
+  foodCostPercent: number | null; // plate cost as a share of the selling price
+  margin: number | null; // percent of the selling price left after the plate cost
+  targetPrice: number | null; // lowest whole-peso price that reaches the target margin
+  isBelowTarget: boolean;
+  hasMissingCosts: boolean; // some ingredient has no known cost, so the plate cost is too low
+}
+
+/**
+ * What one base unit of an ingredient costs right now: the average over the stock on hand,
+ * or the newest lot when it has run out, and the catalog price when it was never stocked.
+ */
+const getCurrentUnitCost = (groups: IngredientStock[], catalog: CatalogItem[], item: string): { unitCost: number; source: CostSource } => {
+  const group = groups.find(g => isSameItem(g.item, item));
+  if (group && group.lots.length > 0) {
+    return { unitCost: group.averageCost, source: 'inventory' };
+  }
+  const entry = findCatalogItem(catalog, item);
+  if (entry && entry.defaultCost > 0) {
+    return { unitCost: entry.defaultCost, source: 'catalog' };
+  }
+  return { unitCost: 0, source: 'none' };
+};
+
+/** Plate cost, food-cost percentage and the price for the target margin of each product, at current ingredient costs. */
+export const getProductPricing = (
+  products: MenuProduct[],
+  inventory: InventoryItem[],
+  catalog: CatalogItem[],
+  targetMargin: number
+): ProductPricing[] => {
+  const groups = groupInventoryByItem(inventory);
+  return products.map(product => {
+    const lines = (product.recipe || []).map(ingredient => {
+      const { unitCost, source } = getCurrentUnitCost(groups, catalog, ingredient.item);
+      return { item: ingredient.item, quantity: ingredient.quantity, unitCost, cost: ingredient.quantity * unitCost, source };
+    });
+    const plateCost = lines.reduce((sum, line) => sum + line.cost, 0);
+    const price = parseFloat(String(product.price)) || 0;
+    const margin = price > 0 ? ((price - plateCost) / price) * 100 : null;
+    // A target of 100% or more can never be reached. Rounding to centavos first keeps float noise from adding a peso.
+    const targetPrice = lines.length > 0 && targetMargin < 100
+      ? Math.ceil(Math.round((plateCost / (1 - targetMargin / 100)) * 100) / 100)
+      : null;
+    return {
+      product,
+      lines,
+      plateCost,
+      foodCostPercent: price > 0 ? (plateCost / price) * 100 : null,
+      margin,
+      targetPrice,
+      isBelowTarget: lines.length > 0 && margin !== null && margin < targetMargin,
+      hasMissingCosts: lines.some(line => line.source === 'none'),
+    };
+  });
+};
@@ -0,0 +1,178 @@
+import { AppData } from '../types';
+import { generateId } from './id';
+
+export type MergeCollection = 'inventory' | 'purchases' | 'sales' | 'expenses' | 'products' | 'suppliers' | 'catalog' | 'stocktakes' | 'inventorySnapshots' | 'waste' | 'auditLog';
+
+export const MERGE_COLLECTION_LABELS: Record<MergeCollection, string> = {
+  inventory: 'Inventory Lots',
+  purchases: 'Purchases',
+  sales: 'Sales',
+  expenses: 'Expenses',
+  products: 'Menu Products',
+  suppliers: 'Suppliers',
+  catalog: 'Ingredient Catalog',
+  stocktakes: 'Stocktakes',
+  inventorySnapshots: 'Inventory Snapshots',
+  waste: 'Waste',
+  auditLog: 'Audit Log',
+};
+
+const ID_PREFIXES: Record<MergeCollection, string> = {
+  inventory: 'inv',
+  purchases: 'purchase',
+  sales: 'sale',
+  expenses: 'exp',
+  products: 'prod',
+  suppliers: 'sup',
+  catalog: 'cat',
+  stocktakes: 'count',
+  inventorySnapshots: 'snap',
+  waste: 'waste',
+  auditLog: 'audit',
+};
+
+// Fields that identify a record when ids are missing (backups from before records had ids)
+// or were generated separately on each device. Lot quantities are left out because they
+// change as stock is used.
+const FINGERPRINT_FIELDS: Record<MergeCollection, string[]> = {
+  inventory: ['item', 'costPerUnit', 'date'],
+  purchases: ['item', 'quantity', 'cost', 'date'],
+  sales: ['item', 'quantity', 'revenue', 'date'],
+  expenses: ['name', 'amount', 'date'],
+  products: ['name'],
+  suppliers: ['name'],
+  catalog: ['name'],
+  stocktakes: ['date'],
+  inventorySnapshots: ['day'],
+  waste: ['item', 'quantity', 'date'],
+  auditLog: ['at', 'entity', 'operation', 'recordId'],
+};
+
+type MergeRecord = { id?: string } & Record<string, any>;
+
+export interface MergeCounts {
+  added: number;
+  updated: number;
+  unchanged: number;
+  conflicts: number;
+}
+
+export interface MergeConflict {
+  key: string;
+  collection: MergeCollection;
+  current: MergeRecord;
+  incoming: MergeRecord;
+  fields: string[]; // fields whose values differ
+}
+
+export interface MergePlan {
+  base: AppData; // current data plus added and updated records; conflicts still hold the current version
+  counts: Record<MergeCollection, MergeCounts>;
+  conflicts: MergeConflict[];
+}
+
+export type MergeChoice = 'current' | 'incoming';
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const isEqual = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+const getFingerprint = (collection: MergeCollection, record: MergeRecord) =>
+  FINGERPRINT_FIELDS[collection].map(field => {
+    const value = record[field];
+    if (typeof value === 'string') {
+      return field === 'date' ? String(new Date(value).getTime()) : value.trim().toLowerCase();
+    }
+    return stableStringify(value);
+  }).join('|');
+
+// True when every field of `partial` has the same value in `full`, i.e. `full` only adds information.
+const contains = (full: MergeRecord, partial: MergeRecord) =>
+  Object.keys(partial).every(key => key === 'id' || partial[key] === undefined || isEqual(full[key], partial[key]));
+
+const getDifferentFields = (a: MergeRecord, b: MergeRecord) =>
+  Array.from(new Set([...Object.keys(a), ...Object.keys(b)]))
+    .filter(key => key !== 'id' && !isEqual(a[key], b[key]));
+
+const toRecords = (value: unknown): MergeRecord[] =>
+  (Array.isArray(value) ? value : []).filter(record => record && typeof record === 'object');
+
+/**
+ * Works out how a backup combines with the current data. Incoming records are matched by `id`,
+ * then by content fingerprint. A match that only adds fields is an update; one that contradicts
+ * the current record is a conflict for the user to resolve. Settings always stay as they are.
+ */
+export const planMerge = (current: AppData, incoming: Partial<AppData>): MergePlan => {
+  const base = { ...current };
+  const counts = {} as Record<MergeCollection, MergeCounts>;
+  const conflicts: MergeConflict[] = [];
+
+  (Object.keys(MERGE_COLLECTION_LABELS) as MergeCollection[]).forEach(collection => {
+    const records = toRecords(current[collection]).slice();
+    const matched = new Set<number>();
+    const collectionCounts: MergeCounts = { added: 0, updated: 0, unchanged: 0, conflicts: 0 };
+
+    toRecords(incoming[collection]).forEach(incomingRecord => {
+      let index = incomingRecord.id ? records.findIndex(record => record.id === incomingRecord.id) : -1;
+      if (index === -1) {
+        const fingerprint = getFingerprint(collection, incomingRecord);
+        index = records.findIndex((record, i) => !matched.has(i) && getFingerprint(collection, record) === fingerprint);
+      }
+
+      if (index === -1) {
+        records.push({ ...incomingRecord, id: incomingRecord.id || generateId(ID_PREFIXES[collection]) });
+        matched.add(records.length - 1);
+        collectionCounts.added++;
+        return;
+      }
+
+      matched.add(index);
+      const existing = records[index];
+      // A day's snapshot records this device's stock that day, so an existing one is kept.
+      // Audit entries are never edited once written.
+      if (collection === 'inventorySnapshots' || collection === 'auditLog' || contains(existing, incomingRecord)) {
+        collectionCounts.unchanged++;
+      } else if (contains(incomingRecord, existing)) {
+        records[index] = { ...incomingRecord, id: existing.id };
+        collectionCounts.updated++;
+      } else {
+        conflicts.push({
+          key: `${collection}:${existing.id}`,
+          collection,
+          current: existing,
+          incoming: incomingRecord,
+          fields: getDifferentFields(existing, incomingRecord),
+        });
+        collectionCounts.conflicts++;
+      }
+    });
+
+    (base as Record<MergeCollection, unknown>)[collection] = records;
+    counts[collection] = collectionCounts;
+  });
+
+  return { base, counts, conflicts };
+};
+
+/** Applies the user's conflict choices to a plan. Unresolved conflicts keep the current record. */
+export const resolveMerge = (plan: MergePlan, choices: Record<string, MergeChoice>): AppData => {
+  const merged = { ...plan.base };
+  plan.conflicts
+    .filter(conflict => choices[conflict.key] === 'incoming')
+    .forEach(conflict => {
+      const records = toRecords(merged[conflict.collection]);
+      (merged as Record<MergeCollection, unknown>)[conflict.collection] = records.map(record =>
+        record.id === conflict.current.id ? { ...conflict.incoming, id: conflict.current.id } : record
+      );
+    });
+  return merged;
+};
@@ -0,0 +1,189 @@
+import { AppData, CatalogItem, Expense, InventoryItem, Purchase } from '../types';
+import { createSeedCatalog, findCatalogItem } from './catalog';
+import { getUnitCost, isSameItem } from './inventory';
+
+/** Bump this and append a migration whenever the stored shape of `AppData` changes. */
+export const CURRENT_SCHEMA_VERSION = 6;
+
+interface Migration {
+  version: number; // the schema version the data has after this migration
+  description: string;
+  migrate: (data: any, now: Date) => any;
+}
+
+const isValidObject = (item: unknown): item is object => !!item && typeof item === 'object';
+
+// Ids are derived from the record itself so that migrating the same backup twice
+// (or on two devices) produces the same ids, which keeps merge imports matching.
+const hashString = (value: string) => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const migratedId = (prefix: string, record: unknown, index: number) =>
+  `migrated-${prefix}-${index}-${hashString(JSON.stringify(record))}`;
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Convert the single rent figure and undated monthly expenses into ledger entries',
+    migrate: (data, now) => {
+      if (data.rent === undefined && data.otherExpenses === undefined) {
+        return data;
+      }
+      // They used to apply to every period, so they take effect from the earliest recorded activity.
+      const activityDates = [...(data.sales || []), ...(data.purchases || []), ...(data.inventory || [])]
+          .map((record: { date?: string }) => record?.date)
+          .filter(Boolean)
+          .sort();
+      const effectiveFrom = activityDates[0] || now.toISOString();
+      const legacyExpenses: Expense[] = (Array.isArray(data.otherExpenses) ? data.otherExpenses : [])
+          .filter(isValidObject)
+          .map((expense: { name?: string; amount?: number }, index: number) => ({
+              id: migratedId('expense', expense, index),
+              name: expense.name || 'Expense',
+              amount: parseFloat(String(expense.amount)) || 0,
+              category: 'other',
+              schedule: 'monthly',
+              date: effectiveFrom,
+          }));
+      const rent = parseFloat(String(data.rent)) || 0;
+      if (rent > 0) {
+          legacyExpenses.unshift({
+              id: migratedId('rent', rent, 0),
+              name: 'Rent',
+              amount: rent,
+              category: 'rent',
+              schedule: 'monthly',
+              date: effectiveFrom,
+          });
+      }
+      const { rent: _rent, otherExpenses: _otherExpenses, ...rest } = data;
+      return { ...rest, expenses: [...(Array.isArray(data.expenses) ? data.expenses : []), ...legacyExpenses] };
+    },
+  },
+  {
+    version: 2,
+    description: 'Give inventory lots, sales and purchases ids and link each purchase to the lot it created',
+    migrate: (data) => {
+      let inventory: InventoryItem[] = (Array.isArray(data.inventory) ? data.inventory : []).filter(isValidObject)
+          .map((item: InventoryItem, index: number) => (item.id ? item : { ...item, id: migratedId('inv', item, index) }));
+      const sales = (Array.isArray(data.sales) ? data.sales : []).filter(isValidObject)
+          .map((sale: { id?: string }, index: number) => (sale.id ? sale : { ...sale, id: migratedId('sale', sale, index) }));
+      const rawPurchases: Purchase[] = (Array.isArray(data.purchases) ? data.purchases : []).filter(isValidObject);
+
+      const linkedLotIds = new Set(rawPurchases.map(purchase => purchase.lotId).filter(Boolean));
+      const purchases = rawPurchases.map((purchase, index) => {
+          const migratedPurchase: Purchase = { ...purchase, id: purchase.id || migratedId('purchase', purchase, index) };
+          if (migratedPurchase.lotId) {
+              return migratedPurchase;
+          }
+          // Purchases created their lot with the same item, date and unit cost.
+          const lot = inventory.find(item =>
+              !linkedLotIds.has(item.id) && !item.purchaseId &&
+              isSameItem(item.item, purchase.item) && item.date === purchase.date &&
+              Math.abs((parseFloat(String(item.costPerUnit)) || 0) - getUnitCost(purchase)) < 0.005
+          );
+          if (lot) {
+              linkedLotIds.add(lot.id);
+              migratedPurchase.lotId = lot.id;
+              inventory = inventory.map(item => (item.id === lot.id ? { ...item, purchaseId: migratedPurchase.id } : item));
+          }
+          return migratedPurchase;
+      });
+
+      return { ...data, inventory, sales, purchases };
+    },
+  },
+  {
+    version: 3,
+    description: 'Start an empty audit log',
+    migrate: (data) => ({ ...data, auditLog: Array.isArray(data.auditLog) ? data.auditLog : [] }),
+  },
+  {
+    version: 4,
+    description: 'Start an empty waste log',
+    migrate: (data) => ({ ...data, waste: Array.isArray(data.waste) ? data.waste : [] }),
+  },
+  {
+    version: 5,
+    description: 'Start an empty supplier directory',
+    migrate: (data) => ({ ...data, suppliers: Array.isArray(data.suppliers) ? data.suppliers : [] }),
+  },
+  {
+    version: 6,
+    description: 'Move ingredients into an editable catalog, seeded from the built-in list, and move reorder levels onto it',
+    migrate: (data) => {
+      const catalog: CatalogItem[] = Array.isArray(data.catalog) ? data.catalog.filter(isValidObject) : createSeedCatalog();
+      // Anything already stocked or bought joins the catalog, at its newest known unit cost.
+      const records: { item?: unknown; date?: string; cost: number }[] = [
+        ...(Array.isArray(data.inventory) ? data.inventory : []).filter(isValidObject)
+            .map((lot: InventoryItem) => ({ item: lot.item, date: lot.date, cost: parseFloat(String(lot.costPerUnit)) || 0 })),
+        ...(Array.isArray(data.purchases) ? data.purchases : []).filter(isValidObject)
+            .map((purchase: Purchase) => ({ item: purchase.item, date: purchase.date, cost: getUnitCost(purchase) })),
+      ];
+      const newestFirst = records
+          .filter(record => typeof record.item === 'string' && record.item.trim())
+          .sort((a, b) => new Date(b.date || 0).getTime() - new Date(a.date || 0).getTime());
+      const added: CatalogItem[] = [];
+      newestFirst.forEach(record => {
+        const name = (record.item as string).trim();
+        if (!findCatalogItem(catalog, name) && !findCatalogItem(added, name)) {
+          added.push({ id: migratedId('catalog', name, 0), name, category: '', unit: '', defaultCost: record.cost });
+        }
+      });
+      added.sort((a, b) => a.name.localeCompare(b.name));
+
+      const { reorderLevels, ...settings } = isValidObject(data.settings) ? data.settings as { reorderLevels?: unknown } : { reorderLevels: undefined };
+      let result = [...catalog, ...added];
+      if (isValidObject(reorderLevels)) {
+        Object.entries(reorderLevels).forEach(([name, level]) => {
+          if (!isValidObject(level)) return;
+          const entry = findCatalogItem(result, name);
+          result = entry
+              ? result.map(item => (item.id === entry.id ? { ...item, reorderLevel: level as CatalogItem['reorderLevel'] } : item))
+              : [...result, { id: migratedId('catalog', name, 0), name, category: '', unit: '', defaultCost: 0, reorderLevel: level as CatalogItem['reorderLevel'] }];
+        });
+      }
+      return { ...data, catalog: result, ...(isValidObject(data.settings) ? { settings } : {}) };
+    },
+  },
+];
+
+/** Backups written before versioning have no `schemaVersion` and count as version 0. */
+export const getSchemaVersion = (data: unknown): number => {
+  const version = isValidObject(data) ? (data as { schemaVersion?: unknown }).schemaVersion : undefined;
+  return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : 0;
+};
+
+// Junk entries can appear at any version (e.g. a hand-edited backup), so this runs on every load.
+const sanitizeCollections = (data: any) => {
+  const sanitized = { ...data };
+  (['inventory', 'purchases', 'sales', 'expenses', 'products', 'suppliers', 'catalog', 'inventorySnapshots', 'stocktakes', 'waste', 'auditLog'] as const).forEach(key => {
+    sanitized[key] = (Array.isArray(data[key]) ? data[key] : []).filter(isValidObject);
+  });
+  return sanitized;
+};
+
+/**
+ * Upgrades stored or imported data to the current schema by running, in order, every migration
+ * newer than the data's version. Throws if the data comes from a newer version of the app.
+ */
+export const migrateAppData = (data: unknown, now: Date = new Date()): AppData => {
+  if (!isValidObject(data) || Array.isArray(data)) {
+    throw new Error('The data is not an object.');
+  }
+  const version = getSchemaVersion(data);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `This data was saved by a newer version of the app (schema version ${version}; this app supports up to ${CURRENT_SCHEMA_VERSION}). Please update the app to use it.`
+    );
+  }
+  const migrated = MIGRATIONS
+    .filter(migration => migration.version > version)
+    .reduce((current, migration) => migration.migrate(current, now), data as any);
+  return { ...sanitizeCollections(migrated), schemaVersion: CURRENT_SCHEMA_VERSION };
+};
@@ -0,0 +1,93 @@
+
+export type Timeframe = 'all' | 'monthly' | 'weekly' | 'daily' | 'custom';
+
+// `end` is exclusive: a day runs from its midnight to the next midnight.
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const getWeekStart = (date: Date) => {
+  const day = date.getDay();
+  return addDays(startOfDay(date), day === 0 ? -6 : 1 - day); // Monday as start of week
+};
+
+/** The day, week or month containing `anchor`. */
+export const getPeriodRange = (timeframe: 'daily' | 'weekly' | 'monthly', anchor: Date): DateRange => {
+  switch (timeframe) {
+    case 'daily':
+      return { start: startOfDay(anchor), end: addDays(anchor, 1) };
+    case 'weekly': {
+      const start = getWeekStart(anchor);
+      return { start, end: addDays(start, 7) };
+    }
+    case 'monthly':
+    default:
+      return {
+        start: new Date(anchor.getFullYear(), anchor.getMonth(), 1),
+        end: new Date(anchor.getFullYear(), anchor.getMonth() + 1, 1),
+      };
+  }
+};
+
+/** Moves an anchor date one period backwards (-1) or forwards (1). */
+export const shiftAnchor = (timeframe: 'daily' | 'weekly' | 'monthly', anchor: Date, direction: number): Date => {
+  switch (timeframe) {
+    case 'daily':
+      return addDays(anchor, direction);
+    case 'weekly':
+      return addDays(anchor, 7 * direction);
+    case 'monthly':
+    default:
+      return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
+  }
+};
+
+export const formatRange = (range: DateRange) => {
+  const lastDay = addDays(range.end, -1);
+  const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+  if (lastDay.getTime() <= range.start.getTime()) {
+    return range.start.toLocaleDateString('en-US', options);
+  }
+  return `${range.start.toLocaleDateString('en-US', options)} – ${lastDay.toLocaleDateString('en-US', options)}`;
+};
+
+export const isInRange = (date: string | undefined, range: DateRange) => {
+  if (!date) return false;
+  const time = new Date(date).getTime();
+  return time >= range.start.getTime() && time < range.end.getTime();
+};
+
+export type ComparisonMode = 'none' | 'previous' | 'lastYear';
+
+/**
+ * The period to compare a range against: the one just before it (same length,
+ * or the previous calendar day/week/month) or the same dates a year earlier.
+ */
+export const getComparisonRange = (timeframe: Timeframe, range: DateRange, mode: ComparisonMode): DateRange | null => {
+  if (mode === 'none' || timeframe === 'all') return null;
+  if (mode === 'lastYear') {
+    const shiftYear = (date: Date) => new Date(date.getFullYear() - 1, date.getMonth(), date.getDate());
+    return { start: shiftYear(range.start), end: shiftYear(range.end) };
+  }
+  if (timeframe === 'custom') {
+    const days = Math.round((range.end.getTime() - range.start.getTime()) / 86400000);
+    return { start: addDays(range.start, -days), end: range.start };
+  }
+  return getPeriodRange(timeframe, shiftAnchor(timeframe, range.start, -1));
+};
+
+/**
+ * While `range` is still running, cuts `comparisonRange` down to as many days as `range` has
+ * had so far (today included), so a period to date is not measured against a whole one.
+ */
+export const trimComparisonRange = (comparisonRange: DateRange, range: DateRange, now: Date): DateRange => {
+  if (now < range.start || now >= range.end) return comparisonRange;
+  const elapsedDays = Math.round((addDays(now, 1).getTime() - range.start.getTime()) / 86400000);
+  const end = addDays(comparisonRange.start, elapsedDays);
+  return end < comparisonRange.end ? { start: comparisonRange.start, end } : comparisonRange;
+};
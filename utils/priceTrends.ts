@@ -0,0 +1,55 @@
+import { Purchase } from '../types';
+import { PRICE_AVERAGE_WINDOW } from '../constants';
+import { getPriceHistory, PricePoint } from './suppliers';
+
+export interface CostTrendPoint extends PricePoint {
+  rollingAverage: number | null; // average unit price of the purchases before this one, null for the first
+  changePercent: number | null; // this unit price versus that average
+}
+
+export interface PriceSpike {
+  item: string;
+  unitPrice: number;
+  average: number;
+  changePercent: number;
+}
+
+const average = (points: PricePoint[]) => points.reduce((sum, point) => sum + point.unitPrice, 0) / points.length;
+
+const getChangePercent = (value: number, base: number) => (base > 0 ? ((value - base) / base) * 100 : null);
+
+/** Each purchase's unit price, oldest first, against the rolling average of the purchases before it. */
+export const getCostTrend = (purchases: Purchase[], item: string, window = PRICE_AVERAGE_WINDOW): CostTrendPoint[] => {
+  const history = getPriceHistory(purchases, item);
+  return history.map((point, index) => {
+    const previous = history.slice(Math.max(0, index - window), index);
+    const rollingAverage = previous.length > 0 ? average(previous) : null;
+    return {
+      ...point,
+      rollingAverage,
+      changePercent: rollingAverage === null ? null : getChangePercent(point.unitPrice, rollingAverage),
+    };
+  });
+};
+
+/**
+ * Whether a new unit price for an ingredient is more than `thresholdPercent` above the average of
+ * its latest purchases. Ingredients never bought before have nothing to compare with.
+ */
+export const findPriceSpike = (
+  purchases: Purchase[],
+  item: string,
+  unitPrice: number,
+  thresholdPercent: number,
+  window = PRICE_AVERAGE_WINDOW
+): PriceSpike | null => {
+  const recent = getPriceHistory(purchases, item).slice(-window);
+  if (recent.length === 0) {
+    return null;
+  }
+  const recentAverage = average(recent);
+  const changePercent = getChangePercent(unitPrice, recentAverage);
+  return changePercent !== null && changePercent > thresholdPercent
+    ? { item, unitPrice, average: recentAverage, changePercent }
+    : null;
+};
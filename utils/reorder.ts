@@ -0,0 +1,71 @@
+import { CatalogItem, InventoryItem, Purchase, ReorderLevel } from '../types';
+import { findCatalogItem } from './catalog';
+import { getUnitCost, groupInventoryByItem, isSameItem } from './inventory';
+
+export interface LowStockItem {
+  item: string;
+  quantity: number; // on hand
+  reorderPoint: number;
+  parLevel: number;
+  defaultCost: number; // catalog price, used when it has never been bought
+}
+
+/** What the purchase form holds for each ingredient being bought. */
+export type PurchaseSelection = Record<string, {
+  quantity: number;
+  price?: number; // per `unit`
+  expiryDate?: string;
+  unit?: string; // name of the purchase unit it is being bought in; the base unit when absent
+}>;
+
+/** The reorder settings for an ingredient, matched case-insensitively like lots are. */
+export const getReorderLevel = (catalog: CatalogItem[], item: string): ReorderLevel | undefined =>
+  findCatalogItem(catalog, item)?.reorderLevel;
+
+/** Active catalog ingredients whose stock has fallen to their reorder point or below, in catalog order. */
+export const getLowStockItems = (inventory: InventoryItem[], catalog: CatalogItem[]): LowStockItem[] => {
+  const groups = groupInventoryByItem(inventory);
+  return catalog
+    .filter(entry => !entry.archived && entry.reorderLevel)
+    .map(entry => {
+      const group = groups.find(g => isSameItem(g.item, entry.name));
+      return {
+        item: entry.name,
+        quantity: group?.quantity ?? 0,
+        reorderPoint: entry.reorderLevel!.reorderPoint,
+        parLevel: entry.reorderLevel!.parLevel,
+        defaultCost: entry.defaultCost,
+      };
+    })
+    .filter(entry => entry.quantity <= entry.reorderPoint);
+};
+
+/**
+ * The unit cost of the most recent purchase of an ingredient, falling back to its newest lot
+ * (stock added by hand) and then to the given default.
+ */
+export const getLastPaidCost = (purchases: Purchase[], inventory: InventoryItem[], item: string, fallback?: number): number | undefined => {
+  const newestFirst = <T extends { date?: string }>(records: T[]) =>
+    records.slice().sort((a, b) => new Date(b.date || 0).getTime() - new Date(a.date || 0).getTime());
+  const purchase = newestFirst(purchases.filter(p => isSameItem(p.item, item) && p.quantity > 0))[0];
+  if (purchase) return getUnitCost(purchase);
+  const lot = newestFirst(inventory.filter(l => isSameItem(l.item, item)))[0];
+  if (lot) return parseFloat(String(lot.costPerUnit)) || 0;
+  return fallback;
+};
+
+/** Enough of each low ingredient to bring it back up to par, in whole units, at the last price paid or the catalog price. */
+export const buildShoppingList = (
+  lowStock: LowStockItem[],
+  purchases: Purchase[],
+  inventory: InventoryItem[]
+): PurchaseSelection => {
+  const list: PurchaseSelection = {};
+  lowStock.forEach(entry => {
+    const needed = Math.ceil(entry.parLevel - entry.quantity - 1e-9);
+    if (needed >= 1) {
+      list[entry.item] = { quantity: needed, price: getLastPaidCost(purchases, inventory, entry.item, entry.defaultCost || undefined) };
+    }
+  });
+  return list;
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { InventorySnapshot } from '../types';
+import { getValueAtDayStart, restateSnapshots } from './snapshots';
+
+const snapshot = (day: string, value: number): InventorySnapshot => ({ id: `snap-${day}`, day, value, takenAt: `${day}T20:00:00.000Z` });
+
+describe('restateSnapshots', () => {
+  const now = new Date('2026-03-10T12:00:00');
+
+  it('shifts snapshots from the movement day onwards', () => {
+    const snapshots = [snapshot('2026-03-01', 100), snapshot('2026-03-05', 200)];
+    const restated = restateSnapshots(snapshots, [{ date: '2026-03-03T10:00:00', value: 50 }], now);
+
+    expect(restated.find(s => s.day === '2026-03-01')?.value).toBe(100);
+    expect(restated.find(s => s.day === '2026-03-05')?.value).toBe(250);
+  });
+
+  it('adds a snapshot for a past day without one, so the next day opens with the movement', () => {
+    const snapshots = [snapshot('2026-03-01', 100), snapshot('2026-03-05', 200)];
+    const restated = restateSnapshots(snapshots, [{ date: '2026-03-03T10:00:00', value: 50 }], now);
+
+    expect(restated.find(s => s.day === '2026-03-03')?.value).toBe(150);
+    expect(getValueAtDayStart(restated, new Date('2026-03-04T00:00:00'))).toBe(150);
+  });
+
+  it('leaves days before the first snapshot and from today on without a snapshot', () => {
+    const snapshots = [snapshot('2026-03-05', 200)];
+    const restated = restateSnapshots(snapshots, [
+      { date: '2026-03-02T10:00:00', value: 50 },
+      { date: '2026-03-10T09:00:00', value: 20 },
+    ], now);
+
+    expect(restated.map(s => s.day)).toEqual(['2026-03-05']);
+    expect(restated[0].value).toBe(250);
+  });
+});
@@ -0,0 +1,91 @@
+
+import { InventorySnapshot } from '../types';
+import { generateId } from './id';
+
+export const toDayKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Keeps one snapshot per calendar day holding the inventory value at the end of that day.
+ * Called whenever inventory changes, so the last write of the day wins.
+ * Returns null when today's snapshot already has this value.
+ */
+export const upsertDailySnapshot = (
+  snapshots: InventorySnapshot[],
+  value: number,
+  now: Date = new Date()
+): InventorySnapshot[] | null => {
+  const day = toDayKey(now);
+  const existing = snapshots.find(snapshot => snapshot.day === day);
+  if (existing && Math.abs(existing.value - value) < 0.005) {
+    return null;
+  }
+  const snapshot: InventorySnapshot = { id: existing?.id || generateId('snap'), day, value, takenAt: now.toISOString() };
+  return existing
+    ? snapshots.map(s => (s.id === existing.id ? snapshot : s))
+    : [...snapshots, snapshot];
+};
+
+/** Stock value a dated record added (positive) or took out (negative). */
+export interface StockMovement {
+  date?: string;
+  value: number;
+}
+
+/**
+ * Shifts the closing value of every snapshot on or after each movement's day by the movement's
+ * value. A purchase, lot, sale or waste record that is backdated, edited or deleted changes stock
+ * from its own day onwards, not just today, so the snapshots of the days since are restated with
+ * it. A past day that moved but has no snapshot gets one, starting from the previous day's
+ * closing value, so the next day opens with the movement included. Undated movements predate the
+ * snapshots and are skipped. Returns `snapshots` unchanged when no snapshot moves.
+ */
+export const restateSnapshots = (
+  snapshots: InventorySnapshot[],
+  movements: StockMovement[],
+  now: Date = new Date()
+): InventorySnapshot[] => {
+  const today = toDayKey(now);
+  const dated = movements
+    .map(movement => ({ time: movement.date ? new Date(movement.date) : null, value: movement.value }))
+    .filter(movement => movement.time && !isNaN(movement.time.getTime()) && movement.value !== 0)
+    .map(movement => ({ day: toDayKey(movement.time!), value: movement.value }));
+
+  // Today's snapshot is written from the stock on hand, and days before the first snapshot have no known value.
+  const inserted: InventorySnapshot[] = [];
+  new Set(dated.map(movement => movement.day)).forEach(day => {
+    const dayTotal = dated.filter(movement => movement.day === day).reduce((acc, movement) => acc + movement.value, 0);
+    if (Math.abs(dayTotal) < 0.005 || day >= today || snapshots.some(snapshot => snapshot.day === day)) return;
+    const previous = snapshots
+      .filter(snapshot => snapshot.day < day)
+      .sort((a, b) => b.day.localeCompare(a.day))[0];
+    if (previous) {
+      inserted.push({ id: `snap-${day}`, day, value: previous.value, takenAt: new Date(`${day}T23:59:59`).toISOString() });
+    }
+  });
+
+  let changed = inserted.length > 0;
+  const restated = [...snapshots, ...inserted].map(snapshot => {
+    const shift = dated.filter(movement => movement.day <= snapshot.day).reduce((acc, movement) => acc + movement.value, 0);
+    if (Math.abs(shift) < 0.005) return snapshot;
+    changed = true;
+    return { ...snapshot, value: snapshot.value + shift };
+  });
+  return changed ? restated : snapshots;
+};
+
+/**
+ * Inventory value at the start of the day containing `boundary`, taken from the
+ * closing snapshot of the most recent earlier day. Returns null when no snapshot
+ * that old exists.
+ */
+export const getValueAtDayStart = (snapshots: InventorySnapshot[], boundary: Date): number | null => {
+  const boundaryDay = toDayKey(boundary);
+  const previous = snapshots
+    .filter(snapshot => snapshot.day < boundaryDay)
+    .sort((a, b) => b.day.localeCompare(a.day))[0];
+  return previous ? previous.value : null;
+};
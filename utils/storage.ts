@@ -0,0 +1,176 @@
+import { AppData } from '../types';
+
+/** Each top-level field of `AppData` is stored, and rewritten, on its own. */
+export type StoreKey = keyof AppData;
+
+export const STORE_KEYS: StoreKey[] = [
+  'schemaVersion',
+  'inventory',
+  'purchases',
+  'sales',
+  'expenses',
+  'products',
+  'suppliers',
+  'catalog',
+  'inventorySnapshots',
+  'stocktakes',
+  'waste',
+  'auditLog',
+  'settings',
+];
+
+/** Where everything lived before per-collection storage: one JSON string holding all of `AppData`. */
+export const LEGACY_STORAGE_KEY = 'appData';
+
+export interface StorageEstimate {
+  usage: number; // bytes
+  quota: number; // bytes
+}
+
+export interface StorageAdapter {
+  name: 'localStorage' | 'indexedDB' | 'memory';
+  /** Resolves to undefined when nothing has been stored under `key`. */
+  read: (key: StoreKey) => Promise<unknown>;
+  /** How many times `key` has been written, by any tab. 0 if never. */
+  readRevision: (key: StoreKey) => Promise<number>;
+  /** Stores the value together with its new revision. */
+  write: (key: StoreKey, value: unknown, revision: number) => Promise<void>;
+  estimate: () => Promise<StorageEstimate | null>;
+}
+
+const revisionKey = (key: StoreKey) => `${key}:revision`;
+
+const toRevision = (value: unknown) => (typeof value === 'number' && value >= 0 ? value : 0);
+
+// Browsers allow roughly 5 MB per origin, stored as UTF-16.
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+export const createLocalStorageAdapter = (prefix = 'appData:'): StorageAdapter => ({
+  name: 'localStorage',
+  read: async (key) => {
+    const item = window.localStorage.getItem(`${prefix}${key}`);
+    return item === null ? undefined : JSON.parse(item);
+  },
+  readRevision: async (key) => toRevision(Number(window.localStorage.getItem(`${prefix}${revisionKey(key)}`))),
+  write: async (key, value, revision) => {
+    window.localStorage.setItem(`${prefix}${key}`, JSON.stringify(value));
+    window.localStorage.setItem(`${prefix}${revisionKey(key)}`, String(revision));
+  },
+  estimate: async () => {
+    let usage = 0;
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const key = window.localStorage.key(i) || '';
+      usage += (key.length + (window.localStorage.getItem(key) || '').length) * 2;
+    }
+    return { usage, quota: LOCAL_STORAGE_QUOTA };
+  },
+});
+
+const DATABASE_NAME = 'pizza-kiosk';
+const OBJECT_STORE = 'collections';
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = window.indexedDB.open(DATABASE_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(OBJECT_STORE);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const createIndexedDbAdapter = (): StorageAdapter => {
+  let database: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => {
+    database = database || openDatabase();
+    return database;
+  };
+
+  const get = async (key: string) => {
+    const db = await getDatabase();
+    return new Promise<unknown>((resolve, reject) => {
+      const request = db.transaction(OBJECT_STORE, 'readonly').objectStore(OBJECT_STORE).get(key);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    name: 'indexedDB',
+    read: (key) => get(key),
+    readRevision: async (key) => toRevision(await get(revisionKey(key))),
+    write: async (key, value, revision) => {
+      const db = await getDatabase();
+      return new Promise<void>((resolve, reject) => {
+        // One transaction, so the value and its revision are never out of step.
+        const transaction = db.transaction(OBJECT_STORE, 'readwrite');
+        transaction.objectStore(OBJECT_STORE).put(value, key);
+        transaction.objectStore(OBJECT_STORE).put(revision, revisionKey(key));
+        transaction.oncomplete = () => resolve();
+        // A quota failure aborts the transaction rather than failing the request.
+        transaction.onabort = () => reject(transaction.error);
+        transaction.onerror = () => reject(transaction.error);
+      });
+    },
+    estimate: async () => {
+      if (!navigator.storage?.estimate) return null;
+      const { usage, quota } = await navigator.storage.estimate();
+      return usage !== undefined && quota ? { usage, quota } : null;
+    },
+  };
+};
+
+/** Keeps everything in memory. Nothing survives a reload. */
+export const createMemoryAdapter = (initial: Partial<AppData> = {}): StorageAdapter => {
+  const values = new Map<StoreKey, unknown>(Object.entries(initial) as [StoreKey, unknown][]);
+  const revisions = new Map<StoreKey, number>();
+  return {
+    name: 'memory',
+    read: async (key) => (values.has(key) ? JSON.parse(JSON.stringify(values.get(key))) : undefined),
+    readRevision: async (key) => revisions.get(key) || 0,
+    write: async (key, value, revision) => {
+      values.set(key, JSON.parse(JSON.stringify(value)));
+      revisions.set(key, revision);
+    },
+    estimate: async () => null,
+  };
+};
+
+/** IndexedDB where the browser has it, localStorage otherwise. */
+export const createDefaultStorageAdapter = (): StorageAdapter =>
+  typeof window !== 'undefined' && window.indexedDB ? createIndexedDbAdapter() : createLocalStorageAdapter();
+
+export interface StoredData {
+  data: Record<string, unknown>;
+  revisions: Partial<Record<StoreKey, number>>;
+  fromLegacyKey: boolean;
+}
+
+/**
+ * Reads every store. If the adapter has never been written to, falls back to the old
+ * single-key localStorage value. Returns null when there is no saved data at all.
+ */
+export const readStoredData = async (adapter: StorageAdapter): Promise<StoredData | null> => {
+  // Revisions are read first: if another tab writes in between, the revision we hold is
+  // older than the value, which only causes a harmless extra merge on our next write.
+  const revisions = await Promise.all(STORE_KEYS.map(key => adapter.readRevision(key)));
+  const values = await Promise.all(STORE_KEYS.map(key => adapter.read(key)));
+  if (values.some(value => value !== undefined)) {
+    const data: Record<string, unknown> = {};
+    const storedRevisions: Partial<Record<StoreKey, number>> = {};
+    STORE_KEYS.forEach((key, index) => {
+      if (values[index] !== undefined) data[key] = values[index];
+      storedRevisions[key] = revisions[index];
+    });
+    return { data, revisions: storedRevisions, fromLegacyKey: false };
+  }
+
+  const legacy = window.localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (legacy === null) {
+    return null;
+  }
+  const parsed = JSON.parse(legacy);
+  return parsed && typeof parsed === 'object' ? { data: parsed, revisions: {}, fromLegacyKey: true } : null;
+};
+
+/** Frees the old single-key copy once every store has been written to its new home. */
+export const removeLegacyData = () => {
+  window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
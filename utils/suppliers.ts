@@ -0,0 +1,76 @@
+import { Purchase, Supplier } from '../types';
+import { getUnitCost, isSameItem } from './inventory';
+import { toDayKey } from './snapshots';
+
+// Purchases recorded without a supplier are grouped under this key.
+export const NO_SUPPLIER = 'none';
+
+export interface SupplierSpend {
+  key: string; // supplier id, or NO_SUPPLIER
+  name: string;
+  spend: number;
+  purchaseCount: number;
+  lastPurchase: string | null;
+}
+
+export interface PricePoint {
+  day: string; // YYYY-MM-DD
+  supplierKey: string;
+  unitPrice: number;
+}
+
+export interface SupplierPrice {
+  supplierKey: string;
+  name: string;
+  unitPrice: number; // what the most recent purchase from this supplier cost per unit
+  day: string;
+}
+
+const toNumber = (value: unknown) => parseFloat(String(value)) || 0;
+
+const getSupplierKey = (purchase: Purchase) => purchase.supplierId || NO_SUPPLIER;
+
+/** The display name for a supplier key, including suppliers deleted since. */
+export const getSupplierName = (key: string, suppliers: Supplier[]) => {
+  if (key === NO_SUPPLIER) return 'No supplier';
+  return suppliers.find(supplier => supplier.id === key)?.name ?? 'Deleted supplier';
+};
+
+/** Total spend per supplier, biggest first. Every supplier in the directory is listed, even with no purchases. */
+export const getSupplierSpend = (purchases: Purchase[], suppliers: Supplier[]): SupplierSpend[] => {
+  const totals = new Map<string, SupplierSpend>();
+  suppliers.forEach(supplier => {
+    totals.set(supplier.id, { key: supplier.id, name: supplier.name, spend: 0, purchaseCount: 0, lastPurchase: null });
+  });
+  purchases.forEach(purchase => {
+    const key = getSupplierKey(purchase);
+    const entry = totals.get(key) || { key, name: getSupplierName(key, suppliers), spend: 0, purchaseCount: 0, lastPurchase: null };
+    entry.spend += toNumber(purchase.cost);
+    entry.purchaseCount++;
+    if (purchase.date && (!entry.lastPurchase || purchase.date > entry.lastPurchase)) {
+      entry.lastPurchase = purchase.date;
+    }
+    totals.set(key, entry);
+  });
+  return Array.from(totals.values()).sort((a, b) => b.spend - a.spend || a.name.localeCompare(b.name));
+};
+
+/** The unit price paid for an ingredient on each dated purchase, oldest first. */
+export const getPriceHistory = (purchases: Purchase[], item: string): PricePoint[] =>
+  purchases
+    .filter(purchase => purchase.date && isSameItem(purchase.item, item) && toNumber(purchase.quantity) > 0)
+    .sort((a, b) => new Date(a.date!).getTime() - new Date(b.date!).getTime())
+    .map(purchase => ({
+      day: toDayKey(new Date(purchase.date!)),
+      supplierKey: getSupplierKey(purchase),
+      unitPrice: getUnitCost(purchase),
+    }));
+
+/** Each supplier's latest price for an ingredient, cheapest first. */
+export const getLatestPrices = (history: PricePoint[], suppliers: Supplier[]): SupplierPrice[] => {
+  const latest = new Map<string, PricePoint>();
+  history.forEach(point => latest.set(point.supplierKey, point)); // history is oldest first
+  return Array.from(latest.values())
+    .map(point => ({ supplierKey: point.supplierKey, name: getSupplierName(point.supplierKey, suppliers), unitPrice: point.unitPrice, day: point.day }))
+    .sort((a, b) => a.unitPrice - b.unitPrice);
+};
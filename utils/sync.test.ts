@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { mergeStoreValues } from './sync';
+
+describe('mergeStoreValues', () => {
+  it('keeps the quantity both tabs set on the same sale', () => {
+    const base = [{ id: 'sale-1', item: 'Pepperoni Pizza', quantity: 2, revenue: 400 }];
+    const local = [{ id: 'sale-1', item: 'Pepperoni Pizza', quantity: 3, revenue: 600 }];
+    const remote = [{ id: 'sale-1', item: 'Pepperoni Pizza', quantity: 3, revenue: 600 }];
+
+    expect(mergeStoreValues('sales', base, local, remote)).toEqual([
+      { id: 'sale-1', item: 'Pepperoni Pizza', quantity: 3, revenue: 600 },
+    ]);
+  });
+
+  it('deducts stock used from the same lot in both tabs', () => {
+    const base = [{ id: 'lot-1', item: 'Cheese', quantity: 10, costPerUnit: 5 }];
+    const local = [{ id: 'lot-1', item: 'Cheese', quantity: 7, costPerUnit: 5 }];
+    const remote = [{ id: 'lot-1', item: 'Cheese', quantity: 8, costPerUnit: 5 }];
+
+    expect(mergeStoreValues('inventory', base, local, remote)).toEqual([
+      { id: 'lot-1', item: 'Cheese', quantity: 5, costPerUnit: 5 },
+    ]);
+  });
+});
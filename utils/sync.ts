@@ -0,0 +1,96 @@
+import { StoreKey } from './storage';
+import { generateId } from './id';
+import { replayRecord } from './history';
+
+const CHANNEL_NAME = 'pizza-kiosk-sync';
+const LOCK_NAME = 'pizza-kiosk-storage';
+// Fallback for browsers without BroadcastChannel: writing this key fires `storage` events in other tabs.
+const SYNC_STORAGE_KEY = 'appData:sync';
+
+export interface SyncChannel {
+  /** Tells other tabs which stores this tab has just written. */
+  notify: (keys: StoreKey[]) => void;
+  close: () => void;
+}
+
+interface SyncMessage {
+  tabId: string;
+  keys: StoreKey[];
+}
+
+/** Listens for writes made by other tabs of the app on the same device. */
+export const createSyncChannel = (onRemoteChange: (keys: StoreKey[]) => void): SyncChannel => {
+  const tabId = generateId('tab');
+  const handleMessage = (message: SyncMessage | null) => {
+    if (message && message.tabId !== tabId && Array.isArray(message.keys)) {
+      onRemoteChange(message.keys);
+    }
+  };
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event) => handleMessage(event.data);
+    return {
+      notify: (keys) => channel.postMessage({ tabId, keys }),
+      close: () => channel.close(),
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === SYNC_STORAGE_KEY && event.newValue) {
+      try {
+        handleMessage(JSON.parse(event.newValue));
+      } catch (error) {
+        console.error(error);
+      }
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    // The timestamp makes every message a change, so repeated writes of the same keys still fire.
+    notify: (keys) => window.localStorage.setItem(SYNC_STORAGE_KEY, JSON.stringify({ tabId, keys, sentAt: Date.now() })),
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+};
+
+/**
+ * Runs `task` while no other tab is reading or writing storage, using the Web Locks API where
+ * available. Without it, revision checks still catch most stale writes.
+ */
+export const withStorageLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const locks = typeof navigator !== 'undefined' ? (navigator as Navigator & { locks?: { request: (name: string, callback: () => Promise<T>) => Promise<T> } }).locks : undefined;
+  return locks ? locks.request(LOCK_NAME, task) : task();
+};
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+type IdRecord = { id: string };
+
+const hasIds = (value: unknown): value is IdRecord[] =>
+  Array.isArray(value) && value.every(record => record && typeof record === 'object' && typeof record.id === 'string');
+
+/**
+ * Three-way merge of one store. `base` is the value this tab last read or wrote, `local` is this
+ * tab's current value and `remote` is what another tab has since written. Local additions, edits
+ * and deletions are replayed onto the remote value, so records added in either tab are kept.
+ * When both tabs edited the same inventory lot, its quantity moves by this tab's change on top of
+ * the other tab's, so stock used in both is deducted; for every other field, and every other
+ * store, this tab's (newer) version wins.
+ */
+export const mergeStoreValues = (key: StoreKey, base: unknown, local: unknown, remote: unknown): unknown => {
+  if (isEqual(local, base)) return remote;
+  if (!hasIds(local) || !hasIds(remote)) return local;
+
+  const baseById = new Map((hasIds(base) ? base : []).map(record => [record.id, record]));
+  const localIds = new Set(local.map(record => record.id));
+  const merged = remote.filter(record => !(baseById.has(record.id) && !localIds.has(record.id)));
+
+  local.forEach(record => {
+    const baseRecord = baseById.get(record.id);
+    if (baseRecord && isEqual(baseRecord, record)) return;
+    const index = merged.findIndex(existing => existing.id === record.id);
+    if (index === -1) merged.push(record);
+    else merged[index] = baseRecord ? replayRecord(key, baseRecord, record, merged[index]) as IdRecord : record;
+  });
+  return merged;
+};
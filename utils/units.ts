@@ -0,0 +1,68 @@
+import { AppData, CatalogItem, PurchaseUnit, StockConsumption } from '../types';
+import { findCatalogItem } from './catalog';
+import { isSameItem } from './inventory';
+
+/** The units an ingredient can be bought in: its base unit first, then its purchase units. */
+export const getPurchaseUnits = (entry: CatalogItem | undefined): PurchaseUnit[] => [
+  { name: entry?.unit || 'unit', factor: 1 },
+  ...(entry?.purchaseUnits || []).filter(unit => unit && unit.name && unit.factor > 0),
+];
+
+/** An ingredient's base unit, or an empty string when it has none yet. */
+export const getBaseUnit = (catalog: CatalogItem[], item: string) => findCatalogItem(catalog, item)?.unit || '';
+
+const scaleConsumption = (consumption: StockConsumption[] | undefined, item: string, factor: number) =>
+  consumption?.map(entry => (isSameItem(entry.item, item)
+    ? { ...entry, quantity: entry.quantity * factor, costPerUnit: entry.costPerUnit / factor }
+    : entry));
+
+/**
+ * Switches an ingredient to a new base unit, where one old unit is `factor` new ones. Every
+ * stored quantity of it is multiplied by the factor and every unit cost divided by it, so
+ * values and costs stay exactly as they were.
+ */
+export const convertBaseUnit = (data: AppData, itemId: string, unit: string, factor: number): AppData => {
+  const entry = (data.catalog || []).find(catalogItem => catalogItem.id === itemId);
+  if (!entry || !(factor > 0)) {
+    return data;
+  }
+  const matches = (record: { item?: string }) => !!record && typeof record.item === 'string' && isSameItem(record.item, entry.name);
+  return {
+    ...data,
+    catalog: data.catalog.map(catalogItem => catalogItem.id !== itemId ? catalogItem : {
+      ...catalogItem,
+      unit,
+      defaultCost: catalogItem.defaultCost / factor,
+      ...(catalogItem.purchaseUnits ? { purchaseUnits: catalogItem.purchaseUnits.map(p => ({ ...p, factor: p.factor * factor })) } : {}),
+      ...(catalogItem.reorderLevel ? {
+        reorderLevel: { reorderPoint: catalogItem.reorderLevel.reorderPoint * factor, parLevel: catalogItem.reorderLevel.parLevel * factor },
+      } : {}),
+    }),
+    inventory: data.inventory.map(lot => (matches(lot)
+      ? { ...lot, quantity: lot.quantity * factor, costPerUnit: lot.costPerUnit / factor }
+      : lot)),
+    purchases: data.purchases.map(purchase => (matches(purchase)
+      ? {
+          ...purchase,
+          quantity: purchase.quantity * factor,
+          ...(purchase.purchaseUnit ? { purchaseUnit: { ...purchase.purchaseUnit, factor: purchase.purchaseUnit.factor * factor } } : {}),
+        }
+      : purchase)),
+    sales: data.sales.map(sale => (sale.consumption ? { ...sale, consumption: scaleConsumption(sale.consumption, entry.name, factor) } : sale)),
+    waste: (data.waste || []).map(record => ({
+      ...record,
+      quantity: matches(record) ? record.quantity * factor : record.quantity,
+      ...(record.consumption ? { consumption: scaleConsumption(record.consumption, entry.name, factor) } : {}),
+    })),
+    products: (data.products || []).map(product => ({
+      ...product,
+      recipe: (product.recipe || []).map(ingredient => (matches(ingredient) ? { ...ingredient, quantity: ingredient.quantity * factor } : ingredient)),
+    })),
+    stocktakes: (data.stocktakes || []).map(stocktake => ({
+      ...stocktake,
+      lines: (stocktake.lines || []).map(line => (matches(line)
+        ? { ...line, expected: line.expected * factor, counted: line.counted * factor, costPerUnit: line.costPerUnit / factor }
+        : line)),
+    })),
+  };
+};
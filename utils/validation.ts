@@ -0,0 +1,256 @@
+import { AppData } from '../types';
+import { EXPENSE_CATEGORY_LABELS, EXPENSE_SCHEDULE_LABELS, WASTE_REASON_LABELS } from '../constants';
+import { AUDIT_ENTITY_LABELS, AUDIT_OPERATION_LABELS } from './audit';
+import { migrateAppData } from './migrations';
+import { MERGE_COLLECTION_LABELS, MergeCollection } from './merge';
+
+type FieldRule =
+  | { type: 'string' | 'number' | 'date'; optional?: boolean; values?: readonly string[] }
+  | { type: 'object'; optional?: boolean; of?: RecordSchema } // `of` checks its fields, when given
+  | { type: 'array'; optional?: boolean; of: RecordSchema };
+
+type RecordSchema = Record<string, FieldRule>;
+
+const REORDER_LEVEL_SCHEMA: RecordSchema = {
+  reorderPoint: { type: 'number' },
+  parLevel: { type: 'number' },
+};
+
+const PURCHASE_UNIT_SCHEMA: RecordSchema = {
+  name: { type: 'string' },
+  factor: { type: 'number' },
+};
+
+const consumptionSchema: RecordSchema = {
+  lotId: { type: 'string' },
+  item: { type: 'string' },
+  quantity: { type: 'number' },
+  costPerUnit: { type: 'number' },
+};
+
+// The shape of each collection at the current schema version.
+const COLLECTION_SCHEMAS: Record<MergeCollection, RecordSchema> = {
+  inventory: {
+    id: { type: 'string' },
+    item: { type: 'string' },
+    quantity: { type: 'number' },
+    costPerUnit: { type: 'number' },
+    date: { type: 'date', optional: true },
+    purchaseId: { type: 'string', optional: true },
+    expiryDate: { type: 'date', optional: true },
+  },
+  purchases: {
+    id: { type: 'string' },
+    item: { type: 'string' },
+    quantity: { type: 'number' },
+    cost: { type: 'number' },
+    date: { type: 'date', optional: true },
+    lotId: { type: 'string', optional: true },
+    expiryDate: { type: 'date', optional: true },
+    supplierId: { type: 'string', optional: true },
+    purchaseUnit: { type: 'object', optional: true, of: PURCHASE_UNIT_SCHEMA },
+  },
+  sales: {
+    id: { type: 'string' },
+    item: { type: 'string' },
+    quantity: { type: 'number' },
+    revenue: { type: 'number' },
+    date: { type: 'date', optional: true },
+    unitPrice: { type: 'number', optional: true },
+    productId: { type: 'string', optional: true },
+    consumption: { type: 'array', optional: true, of: consumptionSchema },
+  },
+  expenses: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    amount: { type: 'number' },
+    category: { type: 'string', values: Object.keys(EXPENSE_CATEGORY_LABELS) },
+    schedule: { type: 'string', values: Object.keys(EXPENSE_SCHEDULE_LABELS) },
+    date: { type: 'date' },
+    effectiveTo: { type: 'date', optional: true },
+  },
+  products: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    price: { type: 'number' },
+    recipe: { type: 'array', of: { item: { type: 'string' }, quantity: { type: 'number' } } },
+  },
+  suppliers: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    contact: { type: 'string', optional: true },
+    notes: { type: 'string', optional: true },
+  },
+  catalog: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    category: { type: 'string' },
+    unit: { type: 'string' },
+    purchaseUnits: { type: 'array', optional: true, of: PURCHASE_UNIT_SCHEMA },
+    defaultCost: { type: 'number' },
+    reorderLevel: { type: 'object', optional: true, of: REORDER_LEVEL_SCHEMA },
+  },
+  stocktakes: {
+    id: { type: 'string' },
+    date: { type: 'date' },
+    lines: {
+      type: 'array',
+      of: {
+        item: { type: 'string' },
+        expected: { type: 'number' },
+        counted: { type: 'number' },
+        costPerUnit: { type: 'number' },
+      },
+    },
+  },
+  inventorySnapshots: {
+    id: { type: 'string' },
+    day: { type: 'string' },
+    value: { type: 'number' },
+    takenAt: { type: 'date' },
+  },
+  waste: {
+    id: { type: 'string' },
+    item: { type: 'string' },
+    quantity: { type: 'number' },
+    reason: { type: 'string', values: Object.keys(WASTE_REASON_LABELS) },
+    note: { type: 'string', optional: true },
+    date: { type: 'date' },
+    lotId: { type: 'string', optional: true },
+    consumption: { type: 'array', optional: true, of: consumptionSchema },
+  },
+  auditLog: {
+    id: { type: 'string' },
+    at: { type: 'date' },
+    actor: { type: 'string' },
+    entity: { type: 'string', values: Object.keys(AUDIT_ENTITY_LABELS) },
+    operation: { type: 'string', values: Object.keys(AUDIT_OPERATION_LABELS) },
+    recordId: { type: 'string' },
+    before: { type: 'object', optional: true },
+    after: { type: 'object', optional: true },
+    cause: { type: 'string' },
+  },
+};
+
+const COLLECTIONS = Object.keys(COLLECTION_SCHEMAS) as MergeCollection[];
+
+const REQUIRED_COLLECTIONS: MergeCollection[] = ['inventory', 'purchases', 'sales'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const validateRecord = (record: Record<string, unknown>, schema: RecordSchema, path: string, errors: string[]) => {
+  Object.entries(schema).forEach(([field, rule]) => {
+    const value = record[field];
+    const fieldPath = `${path}.${field}`;
+    if (value === undefined || value === null) {
+      if (!rule.optional) errors.push(`${fieldPath} is missing`);
+      return;
+    }
+    switch (rule.type) {
+      case 'string':
+        if (typeof value !== 'string') errors.push(`${fieldPath} is not text`);
+        else if (rule.values && !rule.values.includes(value)) errors.push(`${fieldPath} "${value}" is not one of ${rule.values.join(', ')}`);
+        break;
+      case 'number':
+        if (typeof value !== 'number' || !isFinite(value)) errors.push(`${fieldPath} is not a number`);
+        break;
+      case 'date':
+        if (typeof value !== 'string' || isNaN(new Date(value).getTime())) errors.push(`${fieldPath} is not a valid date`);
+        break;
+      case 'object':
+        if (!isPlainObject(value)) errors.push(`${fieldPath} is not an object`);
+        else if (rule.of) validateRecord(value, rule.of, fieldPath, errors);
+        break;
+      case 'array':
+        if (!Array.isArray(value)) {
+          errors.push(`${fieldPath} is not a list`);
+        } else {
+          value.forEach((entry, index) => {
+            if (isPlainObject(entry)) validateRecord(entry, rule.of, `${fieldPath}[${index}]`, errors);
+            else errors.push(`${fieldPath}[${index}] is not an object`);
+          });
+        }
+        break;
+    }
+  });
+};
+
+/**
+ * Checks a parsed backup file before anything is imported. The raw file is checked for
+ * structure, then upgraded to the current schema and every record is checked field by field.
+ * Returns the upgraded data only when there are no errors.
+ */
+export const validateBackup = (raw: unknown): { data: AppData | null; errors: string[] } => {
+  if (!isPlainObject(raw)) {
+    return { data: null, errors: ['The file does not contain a backup object.'] };
+  }
+  const errors: string[] = [];
+  REQUIRED_COLLECTIONS.forEach(collection => {
+    if (!(collection in raw)) errors.push(`${collection} is missing`);
+  });
+  COLLECTIONS.forEach(collection => {
+    const value = raw[collection];
+    if (value === undefined) return;
+    if (!Array.isArray(value)) {
+      errors.push(`${collection} is not a list`);
+      return;
+    }
+    value.forEach((entry, index) => {
+      if (!isPlainObject(entry)) errors.push(`${collection}[${index}] is not an object`);
+    });
+  });
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  let data: AppData;
+  try {
+    data = migrateAppData(raw);
+  } catch (error) {
+    return { data: null, errors: [error instanceof Error ? error.message : 'The backup could not be upgraded.'] };
+  }
+
+  COLLECTIONS.forEach(collection => {
+    (data[collection] as unknown as Record<string, unknown>[]).forEach((record, index) => {
+      validateRecord(record, COLLECTION_SCHEMAS[collection], `${collection}[${index}]`, errors);
+    });
+  });
+  if (data.settings !== undefined) {
+    if (!isPlainObject(data.settings)) {
+      errors.push('settings is not an object');
+    } else {
+      validateRecord(data.settings, {
+        costingMethod: { type: 'string', optional: true, values: ['fifo', 'average'] },
+        actor: { type: 'string', optional: true },
+        priceSpikeThreshold: { type: 'number', optional: true },
+        targetMargin: { type: 'number', optional: true },
+      }, 'settings', errors);
+    }
+  }
+
+  return { data: errors.length === 0 ? data : null, errors };
+};
+
+export interface CollectionSummary {
+  count: number;
+  first: string | null; // earliest record date, ISO
+  last: string | null;
+}
+
+/** Record counts and date spans per collection, used to compare a backup with the current data. */
+export const summarizeCollections = (data: AppData): Record<MergeCollection, CollectionSummary> => {
+  const summary = {} as Record<MergeCollection, CollectionSummary>;
+  (Object.keys(MERGE_COLLECTION_LABELS) as MergeCollection[]).forEach(collection => {
+    const records = (Array.isArray(data[collection]) ? data[collection] : []) as { date?: string; day?: string; at?: string }[];
+    const times = records
+      .map(record => new Date(record.date || record.at || (record.day ? `${record.day}T00:00:00` : '')).getTime())
+      .filter(time => !isNaN(time));
+    summary[collection] = {
+      count: records.length,
+      first: times.length > 0 ? new Date(times.reduce((a, b) => Math.min(a, b))).toISOString() : null,
+      last: times.length > 0 ? new Date(times.reduce((a, b) => Math.max(a, b))).toISOString() : null,
+    };
+  });
+  return summary;
+};